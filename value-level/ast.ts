@@ -0,0 +1,188 @@
+/*
+Canonical CEL AST
+https://github.com/google/cel-spec/blob/master/proto/cel/expr/syntax.proto
+*/
+
+/*
+NOTE:
+* Operators are calls to functions with reserved names such as _+_ and !_
+* Every node has an id that is unique within its tree, assigned by the parser in creation order
+* Map and struct entries have ids of their own like in the protobuf representation
+*/
+import { Span } from "./source";
+
+export type Expr =
+  | ConstExpr
+  | IdentExpr
+  | SelectExpr
+  | CallExpr
+  | CreateListExpr
+  | CreateStructExpr
+  | CreateMapExpr
+  | ComprehensionExpr;
+
+export type ConstKind = "int" | "uint" | "double" | "string" | "bytes" | "bool" | "null";
+
+// Ints and uints are bigints, bytes are binary strings like ByteLitToken values
+export class ConstExpr {
+  constructor(
+    public readonly id: number,
+    public readonly kind: ConstKind,
+    public readonly value: bigint | number | string | boolean | null,
+    public readonly span: Span
+  ) {}
+}
+
+// Names with a leading dot are resolved from the root namespace, ignoring the container
+export class IdentExpr {
+  constructor(public readonly id: number, public readonly name: string, public readonly span: Span) {}
+}
+
+// Presence tests from the has() macro are selections with testOnly set
+export class SelectExpr {
+  constructor(
+    public readonly id: number,
+    public readonly operand: Expr,
+    public readonly field: string,
+    public readonly testOnly: boolean,
+    public readonly span: Span
+  ) {}
+}
+
+// Method calls such as x.f(y) keep their receiver as target, global calls such as f(x, y) have none
+export class CallExpr {
+  constructor(
+    public readonly id: number,
+    public readonly target: Expr | undefined,
+    public readonly func: string,
+    public readonly args: Expr[],
+    public readonly span: Span
+  ) {}
+}
+
+// Elements at optionalIndices are written [?e] and left out when their optional value is empty
+export class CreateListExpr {
+  constructor(
+    public readonly id: number,
+    public readonly elements: Expr[],
+    public readonly optionalIndices: number[],
+    public readonly span: Span
+  ) {}
+}
+
+export class CreateStructExpr {
+  constructor(
+    public readonly id: number,
+    public readonly messageName: string,
+    public readonly fields: StructField[],
+    public readonly span: Span
+  ) {}
+}
+
+// Optional fields are written {?f: v} and left unset when their optional value is empty, and likewise for map entries
+export class StructField {
+  constructor(
+    public readonly id: number,
+    public readonly field: string,
+    public readonly value: Expr,
+    public readonly optional: boolean,
+    public readonly span: Span
+  ) {}
+}
+
+export class CreateMapExpr {
+  constructor(public readonly id: number, public readonly entries: MapEntry[], public readonly span: Span) {}
+}
+
+export class MapEntry {
+  constructor(
+    public readonly id: number,
+    public readonly key: Expr,
+    public readonly value: Expr,
+    public readonly optional: boolean,
+    public readonly span: Span
+  ) {}
+}
+
+// Folds iterRange into accuVar, stepping while loopCondition holds, then evaluates result.
+// With iterVar2 set, iterVar takes list indexes or map keys and iterVar2 the elements or values
+export class ComprehensionExpr {
+  constructor(
+    public readonly id: number,
+    public readonly iterVar: string,
+    public readonly iterVar2: string | undefined,
+    public readonly iterRange: Expr,
+    public readonly accuVar: string,
+    public readonly accuInit: Expr,
+    public readonly loopCondition: Expr,
+    public readonly loopStep: Expr,
+    public readonly result: Expr,
+    public readonly span: Span
+  ) {}
+}
+
+export const BINARY_OPERATORS: Record<string, string> = {
+  "||": "_||_",
+  "&&": "_&&_",
+  "<": "_<_",
+  "<=": "_<=_",
+  ">=": "_>=_",
+  ">": "_>_",
+  "==": "_==_",
+  "!=": "_!=_",
+  in: "@in",
+  "+": "_+_",
+  "-": "_-_",
+  "*": "_*_",
+  "/": "_/_",
+  "%": "_%_",
+};
+
+export const UNARY_OPERATORS: Record<string, string> = {
+  "!": "!_",
+  "-": "-_",
+};
+
+export const CONDITIONAL_OPERATOR = "_?_:_";
+export const INDEX_OPERATOR = "_[_]";
+// a.?b and m[?k], which give an empty optional value instead of failing when b or k is missing.
+// The field of an optional selection is passed as a string constant
+export const OPTIONAL_SELECT = "_?._";
+export const OPTIONAL_INDEX = "_[?_]";
+// Internal to macro expansions, true unless its argument is false, so errors do not stop a loop early
+export const NOT_STRICTLY_FALSE = "@not_strictly_false";
+export const ACCUMULATOR_VAR = "__result__";
+// Internal to the map transformation macros, adds a key and value or the entries of a map, failing on duplicate keys
+export const MAP_INSERT = "cel.@mapInsert";
+// cel.block() calls, whose list of bindings is read through identifiers made of the prefix and an index
+export const BLOCK_FUNCTION = "cel.@block";
+export const BLOCK_INDEX_PREFIX = "@index";
+// Iteration variable of cel.bind() comprehensions, which never iterate
+export const UNUSED_ITER_VAR = "#unused";
+
+export function isQualifiedName(expr: Expr): boolean {
+  if (expr instanceof SelectExpr) {
+    return !expr.testOnly && isQualifiedName(expr.operand);
+  }
+  return expr instanceof IdentExpr;
+}
+
+export function qualifiedName(expr: IdentExpr | SelectExpr): string {
+  if (expr instanceof SelectExpr) {
+    return `${qualifiedName(expr.operand as IdentExpr | SelectExpr)}.${expr.field}`;
+  }
+  return expr.name;
+}
+
+// Candidates for a name in container a.b are a.b.name, a.name and name, innermost first
+export function candidateNames(name: string, container: string): string[] {
+  if (name.startsWith(".")) {
+    return [name.slice(1)];
+  }
+  const parts = container === "" ? [] : container.split(".");
+  const candidates: string[] = [];
+  for (let length = parts.length; length >= 0; length--) {
+    candidates.push([...parts.slice(0, length), name].join("."));
+  }
+  return candidates;
+}
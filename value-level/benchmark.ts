@@ -0,0 +1,53 @@
+/*
+NOTE:
+* Timing the lexer and the parser separately on generated rules that double in size
+* Parsing takes linear time if the time per token stays roughly flat as the rules grow
+* Run with `npx ts-node value-level/benchmark.ts`
+*/
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+
+const RUNS = 5;
+
+function generateRule(clauses: number): string {
+  const rules: string[] = [];
+  for (let i = 0; i < clauses; i++) {
+    rules.push(
+      `(request.auth.claims["groups"].exists(g, g == "team-${i}") && request.size[${i}] + 2 * x <= ${i}.5) || ` +
+        `has(resource.labels.env) && resource.labels.env in ["prod", "staging"] && !resource.name.startsWith("tmp-${i}")`
+    );
+  }
+  return rules.join(" || ");
+}
+
+// Median of several runs, to smooth out garbage collection pauses
+function measure(fn: () => void): number {
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    fn();
+    times.push(performance.now() - start);
+  }
+  return times.sort((a, b) => a - b)[Math.floor(RUNS / 2)];
+}
+
+function benchmarkParser() {
+  console.log("clauses      bytes     tokens   lex (ms)   parse (ms)   parse (us/token)");
+  for (let clauses = 125; clauses <= 4000; clauses *= 2) {
+    const input = generateRule(clauses);
+    const tokens = lexer(input);
+    const lexTime = measure(() => lexer(input));
+    const parseTime = measure(() => parser(tokens, { maxCodePointLength: Infinity }));
+    const row = [
+      String(clauses).padStart(7),
+      String(input.length).padStart(10),
+      String(tokens.length).padStart(10),
+      lexTime.toFixed(1).padStart(10),
+      parseTime.toFixed(1).padStart(12),
+      ((parseTime * 1000) / tokens.length).toFixed(3).padStart(18),
+    ];
+    console.log(row.join(" "));
+  }
+}
+
+benchmarkParser();
@@ -1,27 +1,47 @@
-import { BoolValue, ByteValue, IntValue, ListValue, MapValue, StringValue, Value } from "./interpreter";
+import {
+  BoolValue,
+  ByteValue,
+  IntValue,
+  ListValue,
+  MapValue,
+  OptionalValue,
+  StringValue,
+  StructValue,
+  Value,
+} from "./interpreter";
 
-const BUILTINS = {
-  size: builtinSize,
-  startsWith: builtinStartsWith,
-  endsWith: builtinEndsWith,
-  contains: builtinContains,
-  matches: builtinMatches,
-};
+// A Map rather than an object, so that methods such as toString() are not found on Object.prototype
+const BUILTINS = new Map<string, (...args: Value[]) => Value>([
+  ["size", builtinSize],
+  ["startsWith", builtinStartsWith],
+  ["endsWith", builtinEndsWith],
+  ["contains", builtinContains],
+  ["matches", builtinMatches],
+  ["optional.of", builtinOptionalOf],
+  ["optional.none", builtinOptionalNone],
+  ["optional.ofNonZeroValue", builtinOptionalOfNonZeroValue],
+  ["hasValue", builtinHasValue],
+  ["value", builtinValue],
+]);
+
+export function isBuiltin(method: string): boolean {
+  return BUILTINS.has(method);
+}
 
-// TODO: Handle macros
 export function builtin(method: string, ...args: Value[]): Value {
-  if (BUILTINS[method] !== undefined && args.length === BUILTINS[method].length) {
-    return BUILTINS[method](...args);
+  const fn = BUILTINS.get(method);
+  if (fn !== undefined && args.length === fn.length) {
+    return fn(...args);
   }
   throw new Error(`Unknown builtin: ${method}`);
 }
 
 function builtinSize(object: Value): Value {
   if (object instanceof StringValue || object instanceof ByteValue || object instanceof ListValue) {
-    return new IntValue(object.value.length);
+    return new IntValue(BigInt(object.value.length));
   }
   if (object instanceof MapValue) {
-    return new IntValue(Object.keys(object.value).length);
+    return new IntValue(BigInt(Object.keys(object.value).length));
   }
   throw new Error("size() requires a string, byte, list, or map");
 }
@@ -53,3 +73,46 @@ function builtinMatches(string: Value, pattern: Value): Value {
   }
   return new BoolValue(new RegExp(pattern.value).test(string.value));
 }
+
+function builtinOptionalOf(value: Value): Value {
+  return new OptionalValue(value);
+}
+
+function builtinOptionalNone(): Value {
+  return new OptionalValue(undefined);
+}
+
+function builtinOptionalOfNonZeroValue(value: Value): Value {
+  return new OptionalValue(isZeroValue(value) ? undefined : value);
+}
+
+// Zero values are the defaults of their types, such as 0, "", [] and messages without fields set
+function isZeroValue(value: Value): boolean {
+  if (value instanceof ListValue || value instanceof MapValue) {
+    return value.value.length === 0;
+  }
+  if (value instanceof StructValue) {
+    return Object.keys(value.value).length === 0;
+  }
+  if (value instanceof OptionalValue) {
+    return value.value === undefined;
+  }
+  return value.value === 0 || value.value === 0n || value.value === "" || value.value === false || value.value === null;
+}
+
+function builtinHasValue(optional: Value): Value {
+  if (!(optional instanceof OptionalValue)) {
+    throw new Error("hasValue() requires an optional");
+  }
+  return new BoolValue(optional.value !== undefined);
+}
+
+function builtinValue(optional: Value): Value {
+  if (!(optional instanceof OptionalValue)) {
+    throw new Error("value() requires an optional");
+  }
+  if (optional.value === undefined) {
+    throw new Error("value() called on optional.none()");
+  }
+  return optional.value;
+}
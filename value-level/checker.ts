@@ -0,0 +1,573 @@
+/*
+Static type checking against variable and function declarations
+https://github.com/google/cel-spec/blob/master/doc/langdef.md#gradual-type-checking
+https://github.com/google/cel-spec/blob/master/proto/cel/expr/checked.proto
+*/
+
+/*
+NOTE:
+* Inferring a type for every node and reporting all type errors at once, nodes with errors get dyn to avoid cascades
+* Binding type parameters by unification like cel-go, with fresh ones for every call and for empty list and map literals
+* Leaving dyn for type parameters that nothing binds
+* Resolving variable, function and message names against the container like the interpreter
+* Keeping every overload that matches a call, the interpreter picks one by the argument values when several do
+*/
+import {
+  BLOCK_FUNCTION,
+  BLOCK_INDEX_PREFIX,
+  CallExpr,
+  candidateNames,
+  ComprehensionExpr,
+  ConstExpr,
+  CreateListExpr,
+  CreateMapExpr,
+  CreateStructExpr,
+  Expr,
+  IdentExpr,
+  isQualifiedName,
+  OPTIONAL_SELECT,
+  qualifiedName,
+  SelectExpr,
+} from "./ast";
+import { Decl, OverloadDecl, STANDARD_DECLARATIONS, VariableDecl } from "./decls";
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+import { CelError, Span } from "./source";
+import {
+  BOOL_TYPE,
+  BYTES_TYPE,
+  DOUBLE_TYPE,
+  DYN_TYPE,
+  DynType,
+  INT_TYPE,
+  ListType,
+  MapType,
+  MessageType,
+  NULL_TYPE,
+  OptionalType,
+  PrimitiveType,
+  STRING_TYPE,
+  StructTypeProvider,
+  Type,
+  TypeParamType,
+  TypeProvider,
+  UINT_TYPE,
+} from "./types";
+
+// What a name or call resolved to, the fully qualified name and for calls the matching overloads
+export class Reference {
+  constructor(public readonly name: string, public readonly overloads: OverloadDecl[] = []) {}
+}
+
+// The parsed expression with the type of every node and the references of names and calls, keyed by node id
+export class CheckedExpr {
+  constructor(
+    public readonly expr: Expr,
+    public readonly types: Map<number, Type>,
+    public readonly references: Map<number, Reference>
+  ) {}
+
+  get type(): Type {
+    return this.types.get(this.expr.id)!;
+  }
+}
+
+export class CheckError extends CelError {
+  constructor(public readonly errors: CelError[]) {
+    super(errors[0].reason, errors[0].span);
+    this.name = "CheckError";
+    this.message = errors.map((error) => error.message).join("\n");
+  }
+}
+
+export interface CheckerOptions {
+  typeProvider?: TypeProvider;
+  // Resolves unqualified names like InterpreterOptions.container
+  container?: string;
+}
+
+// State shared by the check functions during a single checker() call
+class CheckerContext {
+  public readonly errors: CelError[] = [];
+  public readonly types = new Map<number, Type>();
+  public readonly references = new Map<number, Reference>();
+  // Bindings of type parameters, replaced by a copy while an overload is tried so a mismatch leaves no trace
+  public substitutions = new Map<string, Type>();
+  private lastTypeParam = 0;
+
+  constructor(
+    public readonly variables: Map<string, Type>,
+    public readonly functions: Map<string, OverloadDecl[]>,
+    public readonly typeProvider: TypeProvider,
+    public readonly container: string
+  ) {}
+
+  freshTypeParam(): TypeParamType {
+    return new TypeParamType(`_var${this.lastTypeParam++}`);
+  }
+
+  // Records the error and gives dyn, which is assignable everywhere so the error does not cascade
+  error(message: string, span: Span): Type {
+    this.errors.push(new CelError(message, span));
+    return DYN_TYPE;
+  }
+}
+
+// Comprehension variables and cel.block() bindings in scope
+type Locals = Map<string, Type>;
+
+export function checker(expr: Expr, declarations: Decl[], options: CheckerOptions = {}): CheckedExpr {
+  const variables = new Map<string, Type>();
+  const functions = new Map<string, OverloadDecl[]>();
+  for (const decl of [...STANDARD_DECLARATIONS, ...declarations]) {
+    if (decl instanceof VariableDecl) {
+      variables.set(decl.name, decl.type);
+    } else {
+      functions.set(decl.name, [...(functions.get(decl.name) ?? []), ...decl.overloads]);
+    }
+  }
+  const typeProvider = options.typeProvider ?? new StructTypeProvider();
+  const ctx = new CheckerContext(variables, functions, typeProvider, options.container ?? "");
+  checkExpr(expr, ctx, new Map());
+  if (ctx.errors.length > 0) {
+    throw new CheckError(ctx.errors);
+  }
+  const types = new Map<number, Type>();
+  ctx.types.forEach((type, id) => types.set(id, substitute(type, ctx)));
+  return new CheckedExpr(expr, types, ctx.references);
+}
+
+function checkExpr(expr: Expr, ctx: CheckerContext, locals: Locals): Type {
+  const type = checkNode(expr, ctx, locals);
+  ctx.types.set(expr.id, type);
+  return type;
+}
+
+function checkNode(expr: Expr, ctx: CheckerContext, locals: Locals): Type {
+  if (expr instanceof ConstExpr) {
+    return constType(expr);
+  }
+  if (expr instanceof IdentExpr) {
+    return checkIdentExpr(expr, ctx, locals);
+  }
+  if (expr instanceof SelectExpr) {
+    return checkSelectExpr(expr, ctx, locals);
+  }
+  if (expr instanceof CallExpr) {
+    return checkCallExpr(expr, ctx, locals);
+  }
+  if (expr instanceof CreateListExpr) {
+    return checkCreateListExpr(expr, ctx, locals);
+  }
+  if (expr instanceof CreateMapExpr) {
+    return checkCreateMapExpr(expr, ctx, locals);
+  }
+  if (expr instanceof CreateStructExpr) {
+    return checkCreateStructExpr(expr, ctx, locals);
+  }
+  return checkComprehensionExpr(expr, ctx, locals);
+}
+
+function constType(constExpr: ConstExpr): Type {
+  switch (constExpr.kind) {
+    case "int":
+      return INT_TYPE;
+    case "uint":
+      return UINT_TYPE;
+    case "double":
+      return DOUBLE_TYPE;
+    case "string":
+      return STRING_TYPE;
+    case "bytes":
+      return BYTES_TYPE;
+    case "bool":
+      return BOOL_TYPE;
+    case "null":
+      return NULL_TYPE;
+  }
+}
+
+function checkIdentExpr(identExpr: IdentExpr, ctx: CheckerContext, locals: Locals): Type {
+  const local = identExpr.name.startsWith(".") ? undefined : locals.get(identExpr.name);
+  if (local !== undefined) {
+    return local;
+  }
+  const type = resolveVariable(identExpr, ctx);
+  if (type === undefined) {
+    return ctx.error(`Undeclared reference to ${identExpr.name} (in container "${ctx.container}")`, identExpr.span);
+  }
+  return type;
+}
+
+// Records the reference if the whole name is a declared variable or an enum constant
+function resolveVariable(expr: IdentExpr | SelectExpr, ctx: CheckerContext): Type | undefined {
+  const candidates = candidateNames(qualifiedName(expr), ctx.container);
+  const name = candidates.find((candidate) => ctx.variables.has(candidate));
+  if (name !== undefined) {
+    ctx.references.set(expr.id, new Reference(name));
+    return ctx.variables.get(name);
+  }
+  const enumName = candidates.find((candidate) => ctx.typeProvider.findEnumValue?.(candidate) !== undefined);
+  if (enumName !== undefined) {
+    ctx.references.set(expr.id, new Reference(enumName));
+    return INT_TYPE;
+  }
+  return undefined;
+}
+
+// Like the interpreter, a.b.c is the variable a.b.c if declared, or else a field of a.b or a
+function checkSelectExpr(selectExpr: SelectExpr, ctx: CheckerContext, locals: Locals): Type {
+  if (isQualifiedName(selectExpr)) {
+    const name = qualifiedName(selectExpr);
+    const type = !locals.has(name.split(".")[0]) ? resolveVariable(selectExpr, ctx) : undefined;
+    if (type !== undefined) {
+      return type;
+    }
+  }
+  const operandType = checkExpr(selectExpr.operand, ctx, locals);
+  const fieldType = selectFieldType(operandType, selectExpr.field, selectExpr.span, ctx);
+  return selectExpr.testOnly ? BOOL_TYPE : fieldType;
+}
+
+function selectFieldType(operandType: Type, field: string, span: Span, ctx: CheckerContext): Type {
+  const type = resolve(operandType, ctx);
+  if (type instanceof DynType || type instanceof TypeParamType) {
+    return DYN_TYPE;
+  }
+  if (type instanceof MapType) {
+    return type.valueType;
+  }
+  if (type instanceof MessageType) {
+    const fieldType = ctx.typeProvider.findFieldType(type.name, field);
+    return fieldType ?? ctx.error(`Unknown field ${field} on type ${type.name}`, span);
+  }
+  // Selections on an optional value stay optional, like in the interpreter
+  if (type instanceof OptionalType) {
+    return new OptionalType(unwrapOptional(selectFieldType(type.elemType, field, span, ctx), ctx));
+  }
+  return ctx.error(`Type ${substitute(type, ctx)} does not support field selection`, span);
+}
+
+function unwrapOptional(type: Type, ctx: CheckerContext): Type {
+  const resolved = resolve(type, ctx);
+  return resolved instanceof OptionalType ? resolved.elemType : type;
+}
+
+function checkCallExpr(callExpr: CallExpr, ctx: CheckerContext, locals: Locals): Type {
+  const { target, func, args } = callExpr;
+  if (func === OPTIONAL_SELECT) {
+    const [operand, field] = args;
+    const operandType = unwrapOptional(checkExpr(operand, ctx, locals), ctx);
+    checkExpr(field, ctx, locals);
+    const fieldType = selectFieldType(operandType, (field as ConstExpr).value as string, callExpr.span, ctx);
+    ctx.references.set(callExpr.id, new Reference(func, ctx.functions.get(func)));
+    return new OptionalType(unwrapOptional(fieldType, ctx));
+  }
+  if (func === BLOCK_FUNCTION) {
+    ctx.references.set(callExpr.id, new Reference(func, ctx.functions.get(func)));
+    return checkBlock(callExpr, ctx, locals);
+  }
+  // Namespaced functions, see evalCallExpr() in the interpreter
+  if (target !== undefined && isQualifiedName(target)) {
+    const namespaced = `${qualifiedName(target as IdentExpr | SelectExpr)}.${func}`;
+    const name = candidateNames(namespaced, ctx.container).find((candidate) => ctx.functions.has(candidate));
+    if (name !== undefined) {
+      const argTypes = args.map((arg) => checkExpr(arg, ctx, locals));
+      return resolveOverload(callExpr, name, false, argTypes, ctx);
+    }
+  }
+  const argTypes = [...(target !== undefined ? [target] : []), ...args].map((arg) => checkExpr(arg, ctx, locals));
+  const name =
+    target !== undefined ? func : candidateNames(func, ctx.container).find((candidate) => ctx.functions.has(candidate));
+  if (name === undefined || !ctx.functions.has(name)) {
+    return ctx.error(`Undeclared reference to function ${func}`, callExpr.span);
+  }
+  return resolveOverload(callExpr, name, target !== undefined, argTypes, ctx);
+}
+
+function resolveOverload(
+  callExpr: CallExpr,
+  name: string,
+  receiverStyle: boolean,
+  argTypes: Type[],
+  ctx: CheckerContext
+): Type {
+  const candidates = ctx.functions
+    .get(name)!
+    .filter((overload) => overload.receiverStyle === receiverStyle && overload.params.length === argTypes.length);
+  const matches: [OverloadDecl, Type, Map<string, Type>][] = [];
+  const substitutions = ctx.substitutions;
+  for (const overload of candidates) {
+    ctx.substitutions = new Map(substitutions);
+    const [params, resultType] = instantiate(overload, ctx);
+    if (params.every((param, i) => isAssignable(param, argTypes[i], ctx))) {
+      matches.push([overload, resultType, ctx.substitutions]);
+    }
+  }
+  ctx.substitutions = substitutions;
+  if (matches.length === 0) {
+    const applied = argTypes.map((type) => substitute(type, ctx)).join(", ");
+    return ctx.error(`No matching overload for ${name} applied to (${applied})`, callExpr.span);
+  }
+  ctx.references.set(
+    callExpr.id,
+    new Reference(
+      name,
+      matches.map(([overload]) => overload)
+    )
+  );
+  if (matches.length === 1) {
+    ctx.substitutions = matches[0][2];
+    return matches[0][1];
+  }
+  // Several overloads match dyn arguments, the result keeps its type only if they all agree
+  const resultTypes = matches.map(([, resultType, substitutions]) =>
+    String(substitute(resultType, ctx, substitutions))
+  );
+  return resultTypes.every((resultType) => resultType === resultTypes[0]) ? matches[0][1] : DYN_TYPE;
+}
+
+// Renames the overload's type parameters to fresh ones, so that separate calls bind them separately
+function instantiate(overload: OverloadDecl, ctx: CheckerContext): [Type[], Type] {
+  const fresh = new Map<string, TypeParamType>();
+  const rename = (type: Type): Type => {
+    if (type instanceof TypeParamType) {
+      if (!fresh.has(type.name)) {
+        fresh.set(type.name, ctx.freshTypeParam());
+      }
+      return fresh.get(type.name)!;
+    }
+    return mapType(type, rename);
+  };
+  return [overload.params.map(rename), rename(overload.resultType)];
+}
+
+// cel.block() bindings each see the ones before them, the body sees them all
+function checkBlock(callExpr: CallExpr, ctx: CheckerContext, locals: Locals): Type {
+  const [bindings, body] = callExpr.args;
+  let blockLocals = locals;
+  (bindings as CreateListExpr).elements.forEach((element, index) => {
+    const type = checkExpr(element, ctx, blockLocals);
+    blockLocals = new Map([...blockLocals, [`${BLOCK_INDEX_PREFIX}${index}`, type]]);
+  });
+  ctx.types.set(bindings.id, new ListType(DYN_TYPE));
+  return checkExpr(body, ctx, blockLocals);
+}
+
+function checkCreateListExpr(createListExpr: CreateListExpr, ctx: CheckerContext, locals: Locals): Type {
+  let elemType: Type = ctx.freshTypeParam();
+  createListExpr.elements.forEach((element, index) => {
+    const type = checkExpr(element, ctx, locals);
+    const optional = createListExpr.optionalIndices.includes(index);
+    elemType = joinTypes(elemType, optional ? optionalContentType(type, element.span, ctx) : type, ctx);
+  });
+  return new ListType(elemType);
+}
+
+function checkCreateMapExpr(createMapExpr: CreateMapExpr, ctx: CheckerContext, locals: Locals): Type {
+  let keyType: Type = ctx.freshTypeParam();
+  let valueType: Type = ctx.freshTypeParam();
+  for (const entry of createMapExpr.entries) {
+    const entryKeyType = checkExpr(entry.key, ctx, locals);
+    const resolvedKeyType = resolve(entryKeyType, ctx);
+    if (resolvedKeyType instanceof PrimitiveType && !["int", "uint", "string", "bool"].includes(resolvedKeyType.name)) {
+      ctx.error(`Unsupported map key type ${resolvedKeyType}`, entry.key.span);
+    }
+    const type = checkExpr(entry.value, ctx, locals);
+    keyType = joinTypes(keyType, entryKeyType, ctx);
+    valueType = joinTypes(valueType, entry.optional ? optionalContentType(type, entry.value.span, ctx) : type, ctx);
+  }
+  return new MapType(keyType, valueType);
+}
+
+function optionalContentType(type: Type, span: Span, ctx: CheckerContext): Type {
+  const resolved = resolve(type, ctx);
+  if (resolved instanceof OptionalType) {
+    return resolved.elemType;
+  }
+  if (resolved instanceof DynType || resolved instanceof TypeParamType) {
+    return DYN_TYPE;
+  }
+  return ctx.error(`Expected an optional value, got ${substitute(resolved, ctx)}`, span);
+}
+
+// Elements of different types make a list(dyn), and likewise for maps
+function joinTypes(previous: Type, next: Type, ctx: CheckerContext): Type {
+  const substitutions = ctx.substitutions;
+  ctx.substitutions = new Map(substitutions);
+  if (isAssignable(previous, next, ctx)) {
+    return previous;
+  }
+  ctx.substitutions = substitutions;
+  return DYN_TYPE;
+}
+
+function checkCreateStructExpr(createStructExpr: CreateStructExpr, ctx: CheckerContext, locals: Locals): Type {
+  const { messageName, fields } = createStructExpr;
+  const typeName = candidateNames(messageName, ctx.container).find(
+    (candidate) => ctx.typeProvider.findType(candidate) !== undefined
+  );
+  for (const { field, value, optional, span } of fields) {
+    const valueType = checkExpr(value, ctx, locals);
+    if (typeName === undefined) {
+      continue;
+    }
+    const fieldType = ctx.typeProvider.findFieldType(typeName, field);
+    if (fieldType === undefined) {
+      ctx.error(`Unknown field ${field} on type ${typeName}`, span);
+      continue;
+    }
+    const expected = optional ? new OptionalType(fieldType) : fieldType;
+    if (!isAssignable(expected, valueType, ctx)) {
+      const found = substitute(valueType, ctx);
+      ctx.error(`Field ${field} on type ${typeName} expects ${expected}, got ${found}`, value.span);
+    }
+  }
+  if (typeName === undefined) {
+    return ctx.error(`Unknown type ${messageName}`, createStructExpr.span);
+  }
+  ctx.references.set(createStructExpr.id, new Reference(typeName));
+  return new MessageType(typeName);
+}
+
+// Types the iteration variables as evalComprehensionExpr() binds them
+function checkComprehensionExpr(comprehensionExpr: ComprehensionExpr, ctx: CheckerContext, locals: Locals): Type {
+  const { iterVar, iterVar2, accuVar, iterRange, loopCondition, loopStep } = comprehensionExpr;
+  const rangeType = resolve(checkExpr(iterRange, ctx, locals), ctx);
+  let iterTypes: [Type, Type];
+  if (rangeType instanceof ListType) {
+    iterTypes = iterVar2 !== undefined ? [INT_TYPE, rangeType.elemType] : [rangeType.elemType, DYN_TYPE];
+  } else if (rangeType instanceof MapType) {
+    iterTypes = [rangeType.keyType, rangeType.valueType];
+  } else if (rangeType instanceof DynType || rangeType instanceof TypeParamType) {
+    iterTypes = [DYN_TYPE, DYN_TYPE];
+  } else {
+    const message = `Expression of type ${substitute(rangeType, ctx)} cannot be the range of a comprehension`;
+    iterTypes = [ctx.error(message, iterRange.span), DYN_TYPE];
+  }
+  const accuType = checkExpr(comprehensionExpr.accuInit, ctx, locals);
+  const loopLocals = new Map([
+    ...locals,
+    [accuVar, accuType],
+    [iterVar, iterTypes[0]],
+    ...(iterVar2 !== undefined ? [[iterVar2, iterTypes[1]] as [string, Type]] : []),
+  ]);
+  const conditionType = checkExpr(loopCondition, ctx, loopLocals);
+  if (!isAssignable(BOOL_TYPE, conditionType, ctx)) {
+    ctx.error(`Expected bool, got ${substitute(conditionType, ctx)}`, loopCondition.span);
+  }
+  const stepType = checkExpr(loopStep, ctx, loopLocals);
+  if (!isAssignable(accuType, stepType, ctx)) {
+    ctx.error(`Expected ${substitute(accuType, ctx)}, got ${substitute(stepType, ctx)}`, loopStep.span);
+  }
+  return checkExpr(comprehensionExpr.result, ctx, new Map([...locals, [accuVar, accuType]]));
+}
+
+// Whether a value of type source can be used where target is expected, binding unbound type parameters to make it so
+function isAssignable(target: Type, source: Type, ctx: CheckerContext): boolean {
+  target = resolve(target, ctx);
+  source = resolve(source, ctx);
+  if (target instanceof TypeParamType || source instanceof TypeParamType) {
+    if (target instanceof TypeParamType && source instanceof TypeParamType && target.name === source.name) {
+      return true;
+    }
+    const [param, type] = target instanceof TypeParamType ? [target, source] : [source as TypeParamType, target];
+    if (occurs(param.name, type, ctx)) {
+      return false;
+    }
+    ctx.substitutions.set(param.name, type);
+    return true;
+  }
+  if (target instanceof DynType || source instanceof DynType) {
+    return true;
+  }
+  if (target instanceof PrimitiveType) {
+    return source instanceof PrimitiveType && source.name === target.name;
+  }
+  // Null is assignable to messages, see valueHasType() in the interpreter
+  if (target instanceof MessageType) {
+    return (source instanceof MessageType && source.name === target.name) || source === NULL_TYPE;
+  }
+  if (target instanceof ListType) {
+    return source instanceof ListType && isAssignable(target.elemType, source.elemType, ctx);
+  }
+  if (target instanceof MapType) {
+    return (
+      source instanceof MapType &&
+      isAssignable(target.keyType, source.keyType, ctx) &&
+      isAssignable(target.valueType, source.valueType, ctx)
+    );
+  }
+  return source instanceof OptionalType && isAssignable(target.elemType, source.elemType, ctx);
+}
+
+// Follows the bindings of a type parameter to the type it stands for
+function resolve(type: Type, ctx: CheckerContext): Type {
+  while (type instanceof TypeParamType && ctx.substitutions.has(type.name)) {
+    type = ctx.substitutions.get(type.name)!;
+  }
+  return type;
+}
+
+function occurs(name: string, type: Type, ctx: CheckerContext): boolean {
+  const resolved = resolve(type, ctx);
+  if (resolved instanceof TypeParamType) {
+    return resolved.name === name;
+  }
+  let found = false;
+  mapType(resolved, (child) => {
+    found ||= occurs(name, child, ctx);
+    return child;
+  });
+  return found;
+}
+
+// Replaces bound type parameters throughout the type, unbound ones become dyn
+function substitute(type: Type, ctx: CheckerContext, substitutions = ctx.substitutions): Type {
+  let resolved = type;
+  while (resolved instanceof TypeParamType && substitutions.has(resolved.name)) {
+    resolved = substitutions.get(resolved.name)!;
+  }
+  if (resolved instanceof TypeParamType) {
+    return DYN_TYPE;
+  }
+  return mapType(resolved, (child) => substitute(child, ctx, substitutions));
+}
+
+// Applies fn to the type arguments of parameterized types
+function mapType(type: Type, fn: (type: Type) => Type): Type {
+  if (type instanceof ListType) {
+    return new ListType(fn(type.elemType));
+  }
+  if (type instanceof MapType) {
+    return new MapType(fn(type.keyType), fn(type.valueType));
+  }
+  if (type instanceof OptionalType) {
+    return new OptionalType(fn(type.elemType));
+  }
+  return type;
+}
+
+function testChecker() {
+  const input = `request.size > 10 && request.labels.exists(k, v, k.startsWith("app") && v != "")`;
+  // const input = `myStr + 1`;
+  const checked = checker(parser(lexer(input)), [
+    new VariableDecl("request.size", INT_TYPE),
+    new VariableDecl("request.labels", new MapType(STRING_TYPE, STRING_TYPE)),
+  ]);
+  console.log(`${checked.type}`);
+
+  // Error paths, each should print the type or the first error rather than crash
+  const cases = [`.all(x, x > 0)`, `1.all(x, x)`, `[1].all(x, x)`, `toString{}`, `{}.toString()`, `1.?a`];
+  for (const input of cases) {
+    try {
+      console.log(`${input} -> ${checker(parser(lexer(input)), []).type}`);
+    } catch (e) {
+      console.log(`${input} -> ${e instanceof CelError ? e.reason : e}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  testChecker();
+}
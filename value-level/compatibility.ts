@@ -0,0 +1,148 @@
+/*
+NOTE:
+* Checking every expression of a corpus against the old and the new declarations, parsing each only once
+* An expression breaks if it type-checks against the old declarations but not against the new ones
+* Result types are compared by name, so a field that becomes dyn changes the type of expressions that read it
+* Expressions that do not parse or type-check against the old declarations are reported as invalid, not as broken
+* As a command, schemas are JSON Schema documents (.json) that declare one variable, or FileDescriptorSets that declare
+  it as a message. Expressions are read one per line, and it exits with 1 if any expression breaks or changes its type.
+* Run with `npx ts-node value-level/compatibility.ts [--variable request[=acme.Request]] [--container acme] old new expressions.txt`,
+  or without arguments for the self-test
+*/
+import { readFileSync } from "fs";
+import { CheckedExpr, checker, CheckerOptions, CheckError } from "./checker";
+import { Decl, VariableDecl } from "./decls";
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+import { readDescriptorSet } from "./protobuf";
+import { readJsonSchema, schemaDeclarations } from "./schema";
+import { CelError } from "./source";
+import { INT_TYPE, MessageType, STRING_TYPE, StructTypeProvider, Type } from "./types";
+
+// Everything the checker needs, which a SchemaDeclarations from schema.ts also provides
+export interface DeclarationSet extends CheckerOptions {
+  declarations: Decl[];
+}
+
+export type CompatibilityStatus = "compatible" | "type_changed" | "broken" | "invalid";
+
+export class CompatibilityResult {
+  constructor(
+    public readonly expression: string,
+    public readonly status: CompatibilityStatus,
+    public readonly oldType: Type | undefined,
+    public readonly newType: Type | undefined,
+    // Why an invalid expression fails against the old declarations or a broken one against the new ones
+    public readonly errors: CelError[] = []
+  ) {}
+}
+
+export function checkCompatibility(
+  expressions: string[],
+  before: DeclarationSet,
+  after: DeclarationSet
+): CompatibilityResult[] {
+  return expressions.map((expression) => {
+    let checkedBefore: CheckedExpr | undefined;
+    try {
+      const expr = parser(lexer(expression));
+      checkedBefore = checker(expr, before.declarations, before);
+      const checkedAfter = checker(expr, after.declarations, after);
+      const [oldType, newType] = [checkedBefore.type, checkedAfter.type];
+      const status = String(oldType) === String(newType) ? "compatible" : "type_changed";
+      return new CompatibilityResult(expression, status, oldType, newType);
+    } catch (e) {
+      if (!(e instanceof CelError)) {
+        throw e;
+      }
+      const errors = e instanceof CheckError ? e.errors : [e];
+      if (checkedBefore === undefined) {
+        return new CompatibilityResult(expression, "invalid", undefined, undefined, errors);
+      }
+      return new CompatibilityResult(expression, "broken", checkedBefore.type, undefined, errors);
+    }
+  });
+}
+
+const USAGE = "Usage: compatibility.ts [--variable name[=message]] [--container name] old new expressions";
+
+function readDeclarations(path: string, variable: string, container: string): DeclarationSet {
+  const [name, messageName] = variable.split("=");
+  if (path.endsWith(".json")) {
+    return { ...schemaDeclarations(readJsonSchema(path), name), container };
+  }
+  if (messageName === undefined) {
+    throw new Error(`${path} is a FileDescriptorSet, --variable needs the message type as in ${name}=acme.Request`);
+  }
+  const typeProvider = readDescriptorSet(path);
+  if (typeProvider.findType(messageName) === undefined) {
+    throw new Error(`${path} has no message type ${messageName}`);
+  }
+  return { declarations: [new VariableDecl(name, new MessageType(messageName))], typeProvider, container };
+}
+
+function compatibilityCommand(args: string[]) {
+  let variable = "request";
+  let container = "";
+  const paths: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--variable" && i + 1 < args.length) {
+      variable = args[++i];
+    } else if (args[i] === "--container" && i + 1 < args.length) {
+      container = args[++i];
+    } else {
+      paths.push(args[i]);
+    }
+  }
+  if (paths.length !== 3) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  const [before, after] = paths.slice(0, 2).map((path) => readDeclarations(path, variable, container));
+  const expressions = readFileSync(paths[2], "utf8")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+  const results = checkCompatibility(expressions, before, after);
+  for (const result of results) {
+    switch (result.status) {
+      case "broken":
+        console.log(`BROKEN   ${result.expression}`);
+        result.errors.forEach((error) => console.log(`  ${error.reason}`));
+        break;
+      case "type_changed":
+        console.log(`CHANGED  ${result.expression}\n  ${result.oldType} -> ${result.newType}`);
+        break;
+      case "invalid":
+        console.log(`INVALID  ${result.expression}`);
+        result.errors.forEach((error) => console.log(`  ${error.reason}`));
+        break;
+    }
+  }
+  const counts = ["compatible", "type_changed", "broken", "invalid"].map(
+    (status) => `${results.filter((result) => result.status === status).length} ${status}`
+  );
+  console.log(counts.join(", "));
+  if (results.some((result) => result.status === "broken" || result.status === "type_changed")) {
+    process.exitCode = 1;
+  }
+}
+
+function testCompatibility() {
+  const typeProvider = new StructTypeProvider({ User: { name: STRING_TYPE, age: INT_TYPE } });
+  const before = { declarations: [new VariableDecl("user", new MessageType("User"))], typeProvider };
+  const after = {
+    declarations: before.declarations,
+    typeProvider: new StructTypeProvider({ User: { name: STRING_TYPE, age: STRING_TYPE } }),
+  };
+  const results = checkCompatibility([`user.name == "x"`, `user.age > 18`, `user.age`, `user.`], before, after);
+  console.log(results.map((result) => result.status).join(", "));
+}
+
+if (require.main === module) {
+  if (process.argv.length > 2) {
+    compatibilityCommand(process.argv.slice(2));
+  } else {
+    testCompatibility();
+  }
+}
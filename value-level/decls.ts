@@ -0,0 +1,168 @@
+/*
+Declarations of variables and functions for the checker
+https://github.com/google/cel-spec/blob/master/proto/cel/expr/checked.proto
+https://github.com/google/cel-spec/blob/master/doc/langdef.md#list-of-standard-definitions
+*/
+
+/*
+NOTE:
+* Overload ids follow cel-go, so references in checked expressions name the same overloads
+* Type parameters are the TypeParamTypes that appear in an overload's signature, each call binds them anew
+* Standard overloads have no implementation, the interpreter evaluates operators and builtins itself
+*/
+import { Value } from "./interpreter";
+import {
+  BOOL_TYPE,
+  BYTES_TYPE,
+  DOUBLE_TYPE,
+  DYN_TYPE,
+  INT_TYPE,
+  ListType,
+  MapType,
+  OptionalType,
+  STRING_TYPE,
+  Type,
+  TypeParamType,
+  UINT_TYPE,
+} from "./types";
+
+export type Decl = VariableDecl | FunctionDecl;
+
+export class VariableDecl {
+  constructor(public readonly name: string, public readonly type: Type) {}
+}
+
+// Receives the receiver of receiver-style overloads as the first argument, like builtins
+export type OverloadImpl = (...args: Value[]) => Value;
+
+// The receiver of receiver-style overloads is the first of params
+export class OverloadDecl {
+  constructor(
+    public readonly id: string,
+    public readonly params: Type[],
+    public readonly resultType: Type,
+    public readonly receiverStyle: boolean = false,
+    public readonly impl?: OverloadImpl
+  ) {}
+}
+
+// Declarations of the same function name add up, so user overloads can extend standard functions
+export class FunctionDecl {
+  constructor(public readonly name: string, public readonly overloads: OverloadDecl[]) {}
+}
+
+const A = new TypeParamType("A");
+const K = new TypeParamType("K");
+const V = new TypeParamType("V");
+const LIST_A = new ListType(A);
+const MAP_KV = new MapType(K, V);
+
+function overload(id: string, params: Type[], resultType: Type): OverloadDecl {
+  return new OverloadDecl(id, params, resultType);
+}
+
+function receiverOverload(id: string, params: Type[], resultType: Type): OverloadDecl {
+  return new OverloadDecl(id, params, resultType, true);
+}
+
+// The same overload for each of the given types, with ids such as add_int64
+function overloadsOf(prefix: string, types: [string, Type][], signature: (type: Type) => [Type[], Type]) {
+  return types.map(([suffix, type]) => overload(`${prefix}_${suffix}`, ...signature(type)));
+}
+
+const NUMERIC: [string, Type][] = [
+  ["int64", INT_TYPE],
+  ["uint64", UINT_TYPE],
+  ["double", DOUBLE_TYPE],
+];
+const COMPARABLE: [string, Type][] = [...NUMERIC, ["string", STRING_TYPE], ["bytes", BYTES_TYPE], ["bool", BOOL_TYPE]];
+
+// Ordering also compares numbers of different types, with ids such as less_int64_double
+function mixedNumericOverloads(prefix: string): OverloadDecl[] {
+  return NUMERIC.flatMap(([leftSuffix, left]) =>
+    NUMERIC.filter(([rightSuffix]) => rightSuffix !== leftSuffix).map(([rightSuffix, right]) =>
+      overload(`${prefix}_${leftSuffix}_${rightSuffix}`, [left, right], BOOL_TYPE)
+    )
+  );
+}
+
+const arithmetic = (type: Type): [Type[], Type] => [[type, type], type];
+const comparison = (type: Type): [Type[], Type] => [[type, type], BOOL_TYPE];
+
+export const STANDARD_DECLARATIONS: FunctionDecl[] = [
+  new FunctionDecl("_+_", [
+    ...overloadsOf("add", [...NUMERIC, ["string", STRING_TYPE], ["bytes", BYTES_TYPE]], arithmetic),
+    overload("add_list", [LIST_A, LIST_A], LIST_A),
+  ]),
+  new FunctionDecl("_-_", overloadsOf("subtract", NUMERIC, arithmetic)),
+  new FunctionDecl("_*_", overloadsOf("multiply", NUMERIC, arithmetic)),
+  new FunctionDecl("_/_", overloadsOf("divide", NUMERIC, arithmetic)),
+  new FunctionDecl("_%_", overloadsOf("modulo", NUMERIC.slice(0, 2), arithmetic)),
+  new FunctionDecl("-_", [
+    overload("negate_int64", [INT_TYPE], INT_TYPE),
+    overload("negate_double", [DOUBLE_TYPE], DOUBLE_TYPE),
+  ]),
+  new FunctionDecl("!_", [overload("logical_not", [BOOL_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("_&&_", [overload("logical_and", [BOOL_TYPE, BOOL_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("_||_", [overload("logical_or", [BOOL_TYPE, BOOL_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("@not_strictly_false", [overload("not_strictly_false", [BOOL_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("_?_:_", [overload("conditional", [BOOL_TYPE, A, A], A)]),
+  new FunctionDecl("_==_", [overload("equals", [A, A], BOOL_TYPE)]),
+  new FunctionDecl("_!=_", [overload("not_equals", [A, A], BOOL_TYPE)]),
+  new FunctionDecl("_<_", [...overloadsOf("less", COMPARABLE, comparison), ...mixedNumericOverloads("less")]),
+  new FunctionDecl("_<=_", [
+    ...overloadsOf("less_equals", COMPARABLE, comparison),
+    ...mixedNumericOverloads("less_equals"),
+  ]),
+  new FunctionDecl("_>_", [...overloadsOf("greater", COMPARABLE, comparison), ...mixedNumericOverloads("greater")]),
+  new FunctionDecl("_>=_", [
+    ...overloadsOf("greater_equals", COMPARABLE, comparison),
+    ...mixedNumericOverloads("greater_equals"),
+  ]),
+  new FunctionDecl("@in", [overload("in_list", [A, LIST_A], BOOL_TYPE), overload("in_map", [K, MAP_KV], BOOL_TYPE)]),
+  new FunctionDecl("_[_]", [
+    overload("index_list", [LIST_A, INT_TYPE], A),
+    overload("index_map", [MAP_KV, K], V),
+    overload("optional_list_index_int", [new OptionalType(LIST_A), INT_TYPE], new OptionalType(A)),
+    overload("optional_map_index_value", [new OptionalType(MAP_KV), K], new OptionalType(V)),
+  ]),
+  new FunctionDecl("_[?_]", [
+    overload("list_optindex_optional_int", [LIST_A, INT_TYPE], new OptionalType(A)),
+    overload("map_optindex_optional_value", [MAP_KV, K], new OptionalType(V)),
+    overload("optional_list_optindex_optional_int", [new OptionalType(LIST_A), INT_TYPE], new OptionalType(A)),
+    overload("optional_map_optindex_optional_value", [new OptionalType(MAP_KV), K], new OptionalType(V)),
+  ]),
+  // Checked specially, declared so that references to it carry cel-go's overload id
+  new FunctionDecl("_?._", [overload("select_optional_field", [DYN_TYPE, STRING_TYPE], new OptionalType(V))]),
+  new FunctionDecl("size", [
+    overload("size_string", [STRING_TYPE], INT_TYPE),
+    overload("size_bytes", [BYTES_TYPE], INT_TYPE),
+    overload("size_list", [LIST_A], INT_TYPE),
+    overload("size_map", [MAP_KV], INT_TYPE),
+    receiverOverload("string_size", [STRING_TYPE], INT_TYPE),
+    receiverOverload("bytes_size", [BYTES_TYPE], INT_TYPE),
+    receiverOverload("list_size", [LIST_A], INT_TYPE),
+    receiverOverload("map_size", [MAP_KV], INT_TYPE),
+  ]),
+  new FunctionDecl("startsWith", [receiverOverload("starts_with_string", [STRING_TYPE, STRING_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("endsWith", [receiverOverload("ends_with_string", [STRING_TYPE, STRING_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("contains", [receiverOverload("contains_string", [STRING_TYPE, STRING_TYPE], BOOL_TYPE)]),
+  new FunctionDecl("matches", [
+    overload("matches", [STRING_TYPE, STRING_TYPE], BOOL_TYPE),
+    receiverOverload("matches_string", [STRING_TYPE, STRING_TYPE], BOOL_TYPE),
+  ]),
+  new FunctionDecl("cel.@mapInsert", [
+    overload("@mapInsert_map_key_value", [MAP_KV, K, V], MAP_KV),
+    overload("@mapInsert_map_map", [MAP_KV, MAP_KV], MAP_KV),
+  ]),
+  new FunctionDecl("cel.@block", [overload("cel_block_list", [new ListType(DYN_TYPE), DYN_TYPE], DYN_TYPE)]),
+  new FunctionDecl("optional.of", [overload("optional_of", [A], new OptionalType(A))]),
+  new FunctionDecl("optional.none", [overload("optional_none", [], new OptionalType(A))]),
+  new FunctionDecl("optional.ofNonZeroValue", [overload("optional_of_non_zero_value", [A], new OptionalType(A))]),
+  new FunctionDecl("hasValue", [receiverOverload("optional_hasValue", [new OptionalType(A)], BOOL_TYPE)]),
+  new FunctionDecl("value", [receiverOverload("optional_value", [new OptionalType(A)], A)]),
+  new FunctionDecl("or", [
+    receiverOverload("optional_or_optional", [new OptionalType(A), new OptionalType(A)], new OptionalType(A)),
+  ]),
+  new FunctionDecl("orValue", [receiverOverload("optional_orValue_value", [new OptionalType(A), A], A)]),
+];
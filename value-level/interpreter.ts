@@ -2,33 +2,43 @@
 List of standard definitions
 https://github.com/google/cel-spec/blob/master/doc/langdef.md#list-of-standard-definitions
 */
-import { builtin } from "./builtin";
-import { lexer } from "./lexer";
 import {
-  AddExpr,
-  AndExpr,
-  BoolLit,
-  ByteLit,
+  CallExpr,
+  candidateNames,
+  ComprehensionExpr,
+  ConstExpr,
+  CreateListExpr,
+  CreateMapExpr,
+  CreateStructExpr,
   Expr,
-  FloatLit,
-  FuncCallExpr,
-  Ident,
-  IndexExpr,
-  IntLit,
-  ListExpr,
-  MapExpr,
-  Member,
-  MultExpr,
-  NullLit,
-  OrExpr,
-  parser,
-  Primary,
-  RelExpr,
-  StringLit,
-  TernaryExpr,
-  UintLit,
-  UnaryExpr,
-} from "./parser";
+  IdentExpr,
+  isQualifiedName,
+  qualifiedName,
+  SelectExpr,
+} from "./ast";
+import { builtin, isBuiltin } from "./builtin";
+import { CheckedExpr, Reference } from "./checker";
+import { OverloadDecl } from "./decls";
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+import { CelError, Span } from "./source";
+import {
+  DynType,
+  ListType,
+  MapType,
+  MAX_INT64,
+  MAX_UINT64,
+  MessageType,
+  MIN_INT64,
+  OptionalType,
+  PrimitiveType,
+  STRING_TYPE,
+  StructTypeProvider,
+  Type,
+  TypeParamType,
+  TypeProvider,
+} from "./types";
+import { doubleLiteral, escapeBytes, escapeString } from "./unparser";
 
 export type Activation = Record<string, Value>;
 
@@ -41,138 +51,524 @@ export type Value =
   | BoolValue
   | NullValue
   | ListValue
-  | MapValue;
+  | MapValue
+  | StructValue
+  | OptionalValue
+  | UnknownValue;
 
 export class IntValue {
-  constructor(public readonly value: number) {}
+  constructor(public readonly value: bigint) {}
+
+  toString(): string {
+    return String(this.value);
+  }
 }
 
 export class UintValue {
-  constructor(public readonly value: number) {}
+  constructor(public readonly value: bigint) {}
+
+  toString(): string {
+    return `${this.value}u`;
+  }
 }
 
 export class FloatValue {
   constructor(public readonly value: number) {}
+
+  toString(): string {
+    // Infinities and NaN have no literal syntax, but can be converted from strings
+    return Number.isFinite(this.value) ? doubleLiteral(this.value) : `double("${this.value}")`;
+  }
 }
 
 export class StringValue {
   constructor(public readonly value: string) {}
+
+  toString(): string {
+    return `"${escapeString(this.value)}"`;
+  }
 }
 
 export class ByteValue {
   constructor(public readonly value: string) {}
+
+  toString(): string {
+    return `b"${escapeBytes(this.value)}"`;
+  }
 }
 
 export class BoolValue {
   constructor(public readonly value: boolean) {}
+
+  toString(): string {
+    return String(this.value);
+  }
 }
 
 export class NullValue {
   constructor(public readonly value: null = null) {}
+
+  toString(): string {
+    return "null";
+  }
 }
 
 export class ListValue {
   constructor(public readonly value: Value[]) {}
+
+  toString(): string {
+    return `[${this.value.join(", ")}]`;
+  }
 }
 
 export class MapValue {
   constructor(public readonly value: [Value, Value][]) {}
+
+  toString(): string {
+    return `{${this.value.map(([key, value]) => `${key}: ${value}`).join(", ")}}`;
+  }
 }
 
-function interpreter(expr: Expr, activation: Activation): Value {
-  return evalExpr(expr, activation);
+// Holds only the fields that were set, the rest read as their type's default value
+export class StructValue {
+  constructor(public readonly typeName: string, public readonly value: Record<string, Value>) {}
+
+  toString(): string {
+    const fields = Object.entries(this.value).map(([field, value]) => `${field}: ${value}`);
+    return `${this.typeName}{${fields.join(", ")}}`;
+  }
 }
 
-function evalExpr(expr: Expr, activation: Activation): Value {
-  if (expr instanceof TernaryExpr) {
-    return evalTernaryExpr(expr, activation);
-  } else {
-    return evalOrExpr(expr, activation);
+// An empty optional value, optional.none(), has an undefined value
+export class OptionalValue {
+  constructor(public readonly value: Value | undefined) {}
+
+  toString(): string {
+    return this.value === undefined ? "optional.none()" : `optional.of(${this.value})`;
   }
 }
 
-function evalTernaryExpr(ternaryExpr: TernaryExpr, activation: Activation): Value {
-  const cond = evalOrExpr(ternaryExpr.cond, activation);
-  if (cond) {
-    return evalOrExpr(ternaryExpr.then!, activation);
+// The result of reading attributes that are not known yet, holds the qualified names that were read
+export class UnknownValue {
+  constructor(public readonly value: string[]) {}
+
+  toString(): string {
+    return `unknown(${this.value.join(", ")})`;
+  }
+}
+
+export interface InterpreterOptions {
+  typeProvider?: TypeProvider;
+  // Namespace such as "acme.policy" that unqualified names are resolved against
+  container?: string;
+  // Qualified names of attributes such as request.auth, reading them or any of their fields gives an UnknownValue
+  unknowns?: string[];
+}
+
+// A bound value that is evaluated on first use, then remembered together with any error
+class LazyValue {
+  private result: Value | CelError | undefined;
+
+  constructor(private readonly compute: () => Value) {}
+
+  get(): Value {
+    if (this.result === undefined) {
+      try {
+        this.result = this.compute();
+      } catch (e) {
+        if (!(e instanceof CelError)) {
+          throw e;
+        }
+        this.result = e;
+      }
+    }
+    if (this.result instanceof CelError) {
+      throw this.result;
+    }
+    return this.result;
+  }
+}
+
+// Everything an expression is evaluated against
+class Env {
+  constructor(
+    public readonly activation: Activation,
+    public readonly typeProvider: TypeProvider,
+    public readonly container: string,
+    public readonly unknowns: string[],
+    // Overloads the checker resolved for each call, empty if the expression was not checked
+    public readonly references: Map<number, Reference>,
+    // Comprehension variables and bindings, which shadow the activation and are never qualified by the container.
+    // An accumulator holds an error until a later step absorbs it, reading it rethrows the error.
+    public readonly locals = new Map<string, Value | CelError | LazyValue>()
+  ) {}
+
+  bind(name: string, value: Value | CelError | LazyValue): Env {
+    const locals = new Map([...this.locals, [name, value]]);
+    return new Env(this.activation, this.typeProvider, this.container, this.unknowns, this.references, locals);
+  }
+}
+
+// Errors are thrown, a result that depends on unknown attributes is an UnknownValue naming them
+export function interpreter(expr: Expr | CheckedExpr, activation: Activation, options: InterpreterOptions = {}): Value {
+  const typeProvider = options.typeProvider ?? new StructTypeProvider();
+  const [container, unknowns] = [options.container ?? "", options.unknowns ?? []];
+  if (expr instanceof CheckedExpr) {
+    return evalExpr(expr.expr, new Env(activation, typeProvider, container, unknowns, expr.references));
+  }
+  return evalExpr(expr, new Env(activation, typeProvider, container, unknowns, new Map()));
+}
+
+function evalExpr(expr: Expr, env: Env): Value {
+  if (expr instanceof ConstExpr) {
+    return evalConstExpr(expr);
+  }
+  if (expr instanceof IdentExpr) {
+    return evalQualifiedName(expr, env);
+  }
+  if (expr instanceof SelectExpr) {
+    return evalSelectExpr(expr, env);
+  }
+  if (expr instanceof CallExpr) {
+    return evalCallExpr(expr, env);
+  }
+  if (expr instanceof CreateListExpr) {
+    return evalCreateListExpr(expr, env);
+  }
+  if (expr instanceof CreateMapExpr) {
+    return evalCreateMapExpr(expr, env);
+  }
+  if (expr instanceof CreateStructExpr) {
+    return evalCreateStructExpr(expr, env);
+  }
+  return evalComprehensionExpr(expr, env);
+}
+
+function evalConstExpr(constExpr: ConstExpr): Value {
+  switch (constExpr.kind) {
+    case "int":
+      return new IntValue(constExpr.value as bigint);
+    case "uint":
+      return new UintValue(constExpr.value as bigint);
+    case "double":
+      return new FloatValue(constExpr.value as number);
+    case "string":
+      return new StringValue(constExpr.value as string);
+    case "bytes":
+      return new ByteValue(constExpr.value as string);
+    case "bool":
+      return new BoolValue(constExpr.value as boolean);
+    case "null":
+      return new NullValue();
+  }
+}
+
+function evalCallExpr(callExpr: CallExpr, env: Env): Value {
+  const reference = env.references.get(callExpr.id);
+  const overloaded = reference !== undefined && reference.overloads.some((overload) => overload.impl !== undefined);
+  switch (overloaded ? undefined : callExpr.func) {
+    case "_?_:_":
+      return evalConditional(callExpr, env);
+    case "_||_":
+    case "_&&_":
+      return evalLogical(callExpr, env);
+    case "@not_strictly_false":
+      return evalNotStrictlyFalse(callExpr, env);
+    case "cel.@block":
+      return evalBlock(callExpr, env);
+    case "_?._":
+      return evalOptionalSelect(callExpr, env);
+    case "or":
+    case "orValue":
+      if (callExpr.target !== undefined && callExpr.args.length === 1) {
+        return evalOptionalOr(callExpr, env);
+      }
+      break;
+  }
+  // Namespaced functions such as optional.of() parse as method calls on the namespace
+  const namespace =
+    callExpr.target !== undefined && isQualifiedName(callExpr.target)
+      ? `${qualifiedName(callExpr.target as IdentExpr | SelectExpr)}.${callExpr.func}`.replace(/^\./, "")
+      : undefined;
+  // Checked calls of declared functions know the name, so their target is a namespace unless the name is the function's
+  const receiver =
+    callExpr.target !== undefined &&
+    (overloaded ? reference!.name === callExpr.func : !(namespace !== undefined && isBuiltin(namespace)));
+  // The receiver of a method call is passed as the first argument
+  const operands = evalStrict([...(receiver ? [callExpr.target!] : []), ...callExpr.args], env);
+  if (operands instanceof UnknownValue) {
+    return operands;
+  }
+  if (overloaded) {
+    const overload = matchOverload(reference!, operands);
+    if (overload === undefined) {
+      throw new CelError(
+        `No matching overload for ${reference!.name} applied to (${operands.join(", ")})`,
+        callExpr.span
+      );
+    }
+    if (overload.impl !== undefined) {
+      return withSpan(callExpr.span, () => overload.impl!(...operands));
+    }
+  }
+  const args = receiver ? operands.slice(1) : operands;
+  switch (callExpr.func) {
+    case "_==_":
+    case "_!=_":
+    case "_<_":
+    case "_<=_":
+    case "_>_":
+    case "_>=_":
+    case "@in":
+      return new BoolValue(withSpan(callExpr.span, () => evalRelation(callExpr.func, args[0], args[1], callExpr.span)));
+    case "_+_":
+    case "_-_":
+    case "_*_":
+    case "_/_":
+    case "_%_":
+      return evalArithmetic(callExpr.func, args[0], args[1], callExpr.span);
+    case "-_":
+    case "!_":
+      return evalUnary(callExpr.func, args[0], callExpr.span);
+    case "_[_]":
+      return evalIndex(args[0], args[1], callExpr.span);
+    case "_[?_]":
+      return evalOptionalIndex(args[0], args[1], callExpr.span);
+    case "cel.@mapInsert":
+      return evalMapInsert(args, callExpr.span);
+  }
+  if (callExpr.target !== undefined && !receiver) {
+    return withSpan(callExpr.span, () => builtin(namespace!, ...args));
+  }
+  const method = callExpr.func.replace(/^\./, ""); // Builtins live in the root namespace
+  return withSpan(callExpr.span, () => builtin(method, ...operands));
+}
+
+// Strict operations give the unknowns among their operands if there are any, or else the first error,
+// so that the result does not depend on the order in which the operands are evaluated
+function evalStrict(exprs: Expr[], env: Env): Value[] | UnknownValue {
+  const values = exprs.map((expr) => evalOrError(expr, env));
+  const unknown = mergeUnknowns(values);
+  if (unknown !== undefined) {
+    return unknown;
+  }
+  for (const value of values) {
+    if (value instanceof CelError) {
+      throw value;
+    }
+  }
+  return values as Value[];
+}
+
+function mergeUnknowns(values: (Value | CelError)[]): UnknownValue | undefined {
+  const unknowns = values.filter((value): value is UnknownValue => value instanceof UnknownValue);
+  if (unknowns.length === 0) {
+    return undefined;
+  }
+  return new UnknownValue([...new Set(unknowns.flatMap((unknown) => unknown.value))]);
+}
+
+// The overload the checker matched whose parameter types fit the argument values, preferring declared
+// implementations over standard overloads, which are left to the interpreter itself
+function matchOverload(reference: Reference, values: Value[]): OverloadDecl | undefined {
+  const matching = reference.overloads.filter((overload) =>
+    overload.params.every((param, i) => valueHasType(values[i], param))
+  );
+  return matching.find((overload) => overload.impl !== undefined) ?? matching[0];
+}
+
+function evalConditional(callExpr: CallExpr, env: Env): Value {
+  const [condExpr, thenExpr, elsExpr] = callExpr.args;
+  const cond = evalExpr(condExpr, env);
+  if (cond instanceof UnknownValue) {
+    return cond;
+  }
+  if (!(cond instanceof BoolValue)) {
+    throw new CelError(`Unexpected condition ${cond}`, condExpr.span);
+  }
+  if (cond.value) {
+    return evalExpr(thenExpr, env);
   } else {
-    return evalExpr(ternaryExpr.els!, activation);
+    return evalExpr(elsExpr, env);
   }
 }
 
-function evalOrExpr(orExpr: OrExpr, activation: Activation): Value {
-  const exprs = orExpr.exprs.map((expr) => evalAndExpr(expr, activation));
-  if (exprs.length === 1) {
-    return exprs[0];
+// Either operand decides the result regardless of errors and unknowns in the other, true for || and false for &&.
+// The right operand is evaluated only if the left one does not decide, otherwise unknowns win over errors.
+function evalLogical(callExpr: CallExpr, env: Env): Value {
+  const decisive = callExpr.func === "_||_";
+  const operands: (Value | CelError)[] = [];
+  for (const arg of callExpr.args) {
+    const operand = evalOrError(arg, env);
+    if (operand instanceof BoolValue && operand.value === decisive) {
+      return operand;
+    }
+    operands.push(operand);
+  }
+  const unknown = mergeUnknowns(operands);
+  if (unknown !== undefined) {
+    return unknown;
+  }
+  for (const operand of operands) {
+    if (operand instanceof CelError) {
+      throw operand;
+    }
+    if (!(operand instanceof BoolValue)) {
+      throw new CelError(`Unexpected operand ${operand}`, callExpr.span);
+    }
   }
-  if (!exprs.every((expr) => expr instanceof BoolValue)) {
-    throw new Error(`Unexpected operands ${exprs}`);
+  return new BoolValue(!decisive);
+}
+
+function evalNotStrictlyFalse(callExpr: CallExpr, env: Env): Value {
+  const arg = evalOrError(callExpr.args[0], env);
+  return new BoolValue(!(arg instanceof BoolValue && !arg.value));
+}
+
+// Binds each element lazily as @index0, @index1 and so on, visible to the elements after it and the body
+function evalBlock(callExpr: CallExpr, env: Env): Value {
+  const [bindings, body] = callExpr.args;
+  if (!(bindings instanceof CreateListExpr)) {
+    throw new CelError(`Unexpected bindings ${bindings}`, bindings.span);
   }
-  return new BoolValue(exprs.some((expr) => expr.value));
+  const blockEnv = bindings.elements.reduce((outer, element, index) => {
+    return outer.bind(`@index${index}`, new LazyValue(() => evalExpr(element, outer)));
+  }, env);
+  return evalExpr(body, blockEnv);
 }
 
-function evalAndExpr(andExpr: AndExpr, activation: Activation): Value {
-  const exprs = andExpr.exprs.map((expr) => evalRelExpr(expr, activation));
-  if (exprs.length === 1) {
-    return exprs[0];
+// Gives the alternative only if the target is empty, without evaluating it otherwise
+function evalOptionalOr(callExpr: CallExpr, env: Env): Value {
+  const target = evalExpr(callExpr.target!, env);
+  if (target instanceof UnknownValue) {
+    return target;
+  }
+  if (!(target instanceof OptionalValue)) {
+    throw new CelError(`Unexpected target ${target}`, callExpr.target!.span);
   }
-  if (!exprs.every((expr) => expr instanceof BoolValue)) {
-    throw new Error(`Unexpected operands ${exprs}`);
+  if (target.value !== undefined) {
+    return callExpr.func === "or" ? target : target.value;
   }
-  return new BoolValue(exprs.every((expr) => expr.value));
+  const alternative = evalExpr(callExpr.args[0], env);
+  if (callExpr.func === "or" && !(alternative instanceof OptionalValue || alternative instanceof UnknownValue)) {
+    throw new CelError(`Unexpected alternative ${alternative}`, callExpr.args[0].span);
+  }
+  return alternative;
 }
 
+function evalOrError(expr: Expr, env: Env): Value | CelError {
+  try {
+    return evalExpr(expr, env);
+  } catch (e) {
+    if (e instanceof CelError) {
+      return e;
+    }
+    throw e;
+  }
+}
+
+// Values of different types are unequal, except numbers, which are compared by their exact value
 function valuesEqual(left: Value, right: Value): boolean {
+  if (isNumeric(left) && isNumeric(right)) {
+    return compareNumbers(left.value, right.value) === 0;
+  }
   if (left instanceof ListValue && right instanceof ListValue) {
     return listValuesEqual(left, right);
   }
   if (left instanceof MapValue && right instanceof MapValue) {
     return mapValuesEqual(left, right);
   }
-  return left.value === right.value;
+  if (left instanceof StructValue && right instanceof StructValue) {
+    return structValuesEqual(left, right);
+  }
+  if (left instanceof OptionalValue && right instanceof OptionalValue) {
+    if (left.value === undefined || right.value === undefined) {
+      return left.value === right.value;
+    }
+    return valuesEqual(left.value, right.value);
+  }
+  return left.constructor === right.constructor && left.value === right.value;
+}
+
+function structValuesEqual(left: StructValue, right: StructValue): boolean {
+  const leftKeys = Object.keys(left.value).sort();
+  const rightKeys = Object.keys(right.value).sort();
+  return (
+    left.typeName === right.typeName &&
+    leftKeys.length === rightKeys.length &&
+    leftKeys.every((key, i) => key === rightKeys[i] && valuesEqual(left.value[key], right.value[key]))
+  );
 }
 
 function listValuesEqual(left: ListValue, right: ListValue): boolean {
+  return left.value.length === right.value.length && left.value.every((value, i) => valuesEqual(value, right.value[i]));
+}
+
+// Maps are equal if they have the same keys with equal values, in any order
+function mapValuesEqual(left: MapValue, right: MapValue): boolean {
   return (
     left.value.length === right.value.length &&
-    left.value.every((_, i) => {
-      if (left.value[i] instanceof ListValue && right.value[i] instanceof ListValue) {
-        return listValuesEqual(left.value[i], right.value[i]);
-      }
-      if (left.value[i] instanceof MapValue && right.value[i] instanceof MapValue) {
-        return mapValuesEqual(left.value[i], right.value[i]);
-      }
-      return left.value[i] === right.value[i];
+    left.value.every(([key, value]) => {
+      const entry = right.value.find(([rightKey]) => valuesEqual(key, rightKey));
+      return entry !== undefined && valuesEqual(value, entry[1]);
     })
   );
 }
 
-function mapValuesEqual(left: MapValue, right: MapValue): boolean {
-  const leftKeys = Object.keys(left.value).sort();
-  const rightKeys = Object.keys(right.value).sort();
-  if (leftKeys.length !== rightKeys.length || !leftKeys.every((_, i) => leftKeys[i] === rightKeys[i])) {
-    return false;
+function isNumeric(value: Value): value is IntValue | UintValue | FloatValue {
+  return value instanceof IntValue || value instanceof UintValue || value instanceof FloatValue;
+}
+
+// Negative, zero or positive as left is less than, equal to or greater than right, NaN if either is NaN.
+// Ints and uints are compared with doubles exactly, without rounding them to doubles first.
+function compareNumbers(left: bigint | number, right: bigint | number): number {
+  if (typeof left === "number" && typeof right === "number") {
+    return left === right ? 0 : left - right;
   }
-  return leftKeys.every((key) => {
-    if (left.value[key] instanceof ListValue && right.value[key] instanceof ListValue) {
-      return listValuesEqual(left.value[key], right.value[key]);
-    }
-    return left.value[key] === right.value[key];
-  });
+  if (typeof left === "bigint" && typeof right === "bigint") {
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+  if (typeof left === "number") {
+    return -compareNumbers(right, left);
+  }
+  const double = right as number;
+  if (Number.isNaN(double)) {
+    return NaN;
+  }
+  if (!Number.isFinite(double)) {
+    return double > 0 ? -1 : 1;
+  }
+  const floor = BigInt(Math.floor(double));
+  if (left !== floor) {
+    return left < floor ? -1 : 1;
+  }
+  return Number.isInteger(double) ? 0 : -1;
 }
 
-function valuesLessThan(left: Value, right: Value): boolean {
-  if (left instanceof ListValue || right instanceof ListValue) {
-    throw new Error("List comparison is not implemented");
+// Orders numbers of any type, and strings, bytes and bools with values of the same type
+function compareValues(func: string, left: Value, right: Value): number {
+  if (isNumeric(left) && isNumeric(right)) {
+    return compareNumbers(left.value, right.value);
   }
-  if (left instanceof MapValue || right instanceof MapValue) {
-    throw new Error("Map comparison is not implemented");
+  if (
+    (left instanceof StringValue && right instanceof StringValue) ||
+    (left instanceof ByteValue && right instanceof ByteValue) ||
+    (left instanceof BoolValue && right instanceof BoolValue)
+  ) {
+    return left.value === right.value ? 0 : left.value < right.value ? -1 : 1;
   }
-  return left.value < right.value;
+  throw new Error(`No such overload for ${func}`);
 }
 
-function valuesLessThanOrEqual(left: Value, right: Value): boolean {
-  return valuesLessThan(left, right) || valuesEqual(left, right);
+// Equality is defined for values of the same type, numbers of any type, and null with anything
+function expectEquatable(func: string, left: Value, right: Value) {
+  if (
+    left.constructor !== right.constructor &&
+    !(isNumeric(left) && isNumeric(right)) &&
+    !(left instanceof NullValue || right instanceof NullValue)
+  ) {
+    throw new Error(`No such overload for ${func}`);
+  }
 }
 
 function valueInList(left: Value, right: ListValue): boolean {
@@ -180,258 +576,478 @@ function valueInList(left: Value, right: ListValue): boolean {
 }
 
 function valueInMap(left: Value, right: MapValue): boolean {
-  return Object.keys(right.value).some((key) => valuesEqual(left, new StringValue(key)));
-}
-
-function evalRelExpr(relExpr: RelExpr, activation: Activation): Value {
-  const exprs = relExpr.exprs.map((expr) => evalAddExpr(expr, activation));
-  const ops = relExpr.ops;
-  if (ops.length === 0) {
-    return exprs[0];
-  }
-  // TODO: Handle in operator
-  const value = ops.reduce((acc, op, i) => {
-    const left = exprs[i];
-    const right = exprs[i + 1];
-    switch (op) {
-      case "==":
-        return acc && valuesEqual(left, right);
-      case "!=":
-        return acc && !valuesEqual(left, right);
-      case "<":
-        return acc && valuesLessThan(left, right);
-      case "<=":
-        return acc && valuesLessThanOrEqual(left, right);
-      case ">":
-        return acc && !valuesLessThan(left, right);
-      case ">=":
-        return acc && !valuesLessThanOrEqual(left, right);
-      case "in":
-        if (right instanceof ListValue) {
-          return acc && valueInList(left, right);
-        }
-        if (right instanceof MapValue) {
-          return acc && valueInMap(left, right);
-        }
-        throw new Error(`Unexpected operand ${right}`);
-      default:
-        throw new Error(`Unexpected operator ${op}`);
-    }
-  }, true);
-  return new BoolValue(value);
+  return right.value.some(([key]) => valuesEqual(left, key));
+}
+
+function evalRelation(func: string, left: Value, right: Value, span: Span): boolean {
+  switch (func) {
+    case "_==_":
+      expectEquatable(func, left, right);
+      return valuesEqual(left, right);
+    case "_!=_":
+      expectEquatable(func, left, right);
+      return !valuesEqual(left, right);
+    // Comparisons with NaN are all false
+    case "_<_":
+      return compareValues(func, left, right) < 0;
+    case "_<=_":
+      return compareValues(func, left, right) <= 0;
+    case "_>_":
+      return compareValues(func, left, right) > 0;
+    case "_>=_":
+      return compareValues(func, left, right) >= 0;
+    default:
+      if (right instanceof ListValue) {
+        return valueInList(left, right);
+      }
+      if (right instanceof MapValue) {
+        return valueInMap(left, right);
+      }
+      throw new CelError(`Unexpected operand ${right}`, span);
+  }
 }
 
-function evalAddExpr(addExpr: AddExpr, activation: Activation): Value {
-  const exprs = addExpr.exprs.map((expr) => evalMultExpr(expr, activation));
-  const ops = addExpr.ops;
-  if (ops.length === 0) {
-    return exprs[0];
+function evalArithmetic(func: string, left: Value, right: Value, span: Span): Value {
+  if (func === "_+_" && left instanceof ListValue && right instanceof ListValue) {
+    return new ListValue([...left.value, ...right.value]);
+  }
+  if (func === "_+_" && left instanceof StringValue && right instanceof StringValue) {
+    return new StringValue(left.value + right.value);
+  }
+  if (func === "_+_" && left instanceof ByteValue && right instanceof ByteValue) {
+    return new ByteValue(left.value + right.value);
+  }
+  if (left instanceof IntValue && right instanceof IntValue) {
+    return new IntValue(computeIntArithmetic(func, left.value, right.value, MIN_INT64, MAX_INT64, span));
+  }
+  if (left instanceof UintValue && right instanceof UintValue) {
+    return new UintValue(computeIntArithmetic(func, left.value, right.value, 0n, MAX_UINT64, span));
+  }
+  if (left instanceof FloatValue && right instanceof FloatValue && func !== "_%_") {
+    return new FloatValue(computeFloatArithmetic(func, left.value, right.value));
   }
-  if (exprs.every((expr) => expr instanceof ListValue)) {
-    if (!ops.every((op) => op === "+")) {
-      throw new Error(`Unexpected operators ${ops}`);
+  throw new CelError(`Unexpected operands ${left}, ${right}`, span);
+}
+
+// Division truncates toward zero and the remainder takes the sign of the dividend, like bigint operators
+function computeIntArithmetic(func: string, left: bigint, right: bigint, min: bigint, max: bigint, span: Span): bigint {
+  if (func === "_/_" && right === 0n) {
+    throw new CelError("Division by zero", span);
+  }
+  if (func === "_%_" && right === 0n) {
+    throw new CelError("Modulus by zero", span);
+  }
+  const value = computeArithmetic(func, left, right);
+  if (value < min || value > max) {
+    throw new CelError("Integer overflow", span);
+  }
+  return value;
+}
+
+function computeArithmetic(func: string, left: bigint, right: bigint): bigint {
+  switch (func) {
+    case "_+_":
+      return left + right;
+    case "_-_":
+      return left - right;
+    case "_*_":
+      return left * right;
+    case "_/_":
+      return left / right;
+    default:
+      return left % right;
+  }
+}
+
+function computeFloatArithmetic(func: string, left: number, right: number): number {
+  switch (func) {
+    case "_+_":
+      return left + right;
+    case "_-_":
+      return left - right;
+    case "_*_":
+      return left * right;
+    default:
+      return left / right;
+  }
+}
+
+function evalUnary(func: string, operand: Value, span: Span): Value {
+  if (func === "-_" && operand instanceof IntValue) {
+    if (operand.value === MIN_INT64) {
+      throw new CelError("Integer overflow", span);
     }
-    return new ListValue(exprs.flatMap((expr) => expr.value));
+    return new IntValue(-operand.value);
+  }
+  if (func === "-_" && operand instanceof FloatValue) {
+    return new FloatValue(-operand.value);
+  }
+  if (func === "!_" && operand instanceof BoolValue) {
+    return new BoolValue(!operand.value);
+  }
+  throw new CelError(`Unexpected operand ${operand}`, span);
+}
+
+function evalSelectExpr(selectExpr: SelectExpr, env: Env): Value {
+  if (isQualifiedName(selectExpr)) {
+    return evalQualifiedName(selectExpr, env);
+  }
+  const operand = evalExpr(selectExpr.operand, env);
+  return selectField(operand, selectExpr.field, selectExpr.testOnly, selectExpr.span, env);
+}
+
+function selectField(member: Value, field: string, testOnly: boolean, span: Span, env: Env): Value {
+  if (member instanceof UnknownValue) {
+    return member;
   }
-  if (exprs.every((expr) => expr instanceof StringValue)) {
-    if (!ops.every((op) => op === "+")) {
-      throw new Error(`Unexpected operators ${ops}`);
+  // Selections on an optional value stay optional, so a.?b.c is empty if either field is missing
+  if (member instanceof OptionalValue) {
+    if (member.value === undefined) {
+      return testOnly ? new BoolValue(false) : member;
     }
-    return new StringValue(exprs.map((expr) => expr.value).join(""));
+    return testOnly
+      ? selectField(member.value, field, true, span, env)
+      : selectOptional(member.value, field, span, env);
   }
-  if (exprs.every((expr) => expr instanceof ByteValue)) {
-    if (!ops.every((op) => op === "+")) {
-      throw new Error(`Unexpected operators ${ops}`);
+  if (member instanceof MapValue) {
+    const item = member.value.find(([key]) => valuesEqual(key, new StringValue(field)));
+    if (testOnly) {
+      return new BoolValue(item !== undefined);
+    }
+    if (!item) {
+      throw new CelError(`Key not found ${field}`, span);
     }
-    return new ByteValue(exprs.map((expr) => expr.value).join(""));
+    return item[1];
   }
-  if (exprs.every((expr) => expr instanceof IntValue || expr instanceof UintValue || expr instanceof FloatValue)) {
-    const value = ops.reduce((acc, op, i) => {
-      const left = acc;
-      const right = exprs[i].value;
-      switch (op) {
-        case "+":
-          return left + right;
-        case "-":
-          return left - right;
-        default:
-          throw new Error(`Unexpected operator ${op}`);
-      }
-    }, 0);
-    if (exprs.some((expr) => expr instanceof FloatValue)) {
-      return new FloatValue(value);
-    }
-    if (exprs.every((expr) => expr instanceof UintValue)) {
-      return new UintValue(value);
-    }
-    return new IntValue(value);
-  }
-  throw new Error(`Unexpected operands ${exprs}`);
-}
-
-function evalMultExpr(multExpr: MultExpr, activation: Activation): Value {
-  const exprs = multExpr.exprs.map((expr) => evalUnaryExpr(expr, activation));
-  const ops = multExpr.ops;
-  if (ops.length === 0) {
-    return exprs[0];
-  }
-  if (exprs.every((expr) => expr instanceof IntValue || expr instanceof UintValue || expr instanceof FloatValue)) {
-    const value = ops.reduce((acc, op, i) => {
-      const left = acc;
-      const right = exprs[i].value;
-      switch (op) {
-        case "*":
-          return left * right;
-        case "/":
-          return left / right;
-        case "%":
-          return left % right;
-        default:
-          throw new Error(`Unexpected operator ${op}`);
-      }
-    }, 1);
-    if (exprs.some((expr) => expr instanceof FloatValue)) {
-      return new FloatValue(value);
+  if (member instanceof StructValue) {
+    const fieldType = env.typeProvider.findFieldType(member.typeName, field);
+    if (fieldType === undefined) {
+      throw new CelError(`Unknown field ${field} on type ${member.typeName}`, span);
     }
-    if (exprs.every((expr) => expr instanceof UintValue)) {
-      return new UintValue(value);
+    const value = Object.prototype.hasOwnProperty.call(member.value, field) ? member.value[field] : undefined;
+    if (testOnly) {
+      return new BoolValue(value !== undefined);
     }
-    return new IntValue(value);
+    return value ?? defaultValue(fieldType);
   }
-  throw new Error(`Unexpected operands ${exprs}`);
+  throw new CelError(`Unexpected member ${member}`, span);
+}
+
+function evalOptionalSelect(callExpr: CallExpr, env: Env): Value {
+  const [operandExpr, fieldExpr] = callExpr.args;
+  const operand = evalExpr(operandExpr, env);
+  return selectOptional(operand, (fieldExpr as ConstExpr).value as string, callExpr.span, env);
 }
 
-function evalUnaryExpr(unaryExpr: UnaryExpr, activation: Activation): Value {
-  const member = evalMember(unaryExpr.member, activation);
-  const ops = unaryExpr.ops;
-  if (ops.length === 0) {
+function selectOptional(member: Value, field: string, span: Span, env: Env): Value {
+  if (member instanceof UnknownValue) {
     return member;
   }
-  if (member instanceof IntValue || member instanceof UintValue) {
-    const value = ops.reduce((acc, op) => {
-      switch (op) {
-        case "-":
-          return -acc;
-        default:
-          throw new Error(`Unexpected operator ${op}`);
-      }
-    }, member.value);
-    return new IntValue(value);
-  }
-  if (member instanceof FloatValue) {
-    const value = ops.reduce((acc, op) => {
-      switch (op) {
-        case "-":
-          return -acc;
-        default:
-          throw new Error(`Unexpected operator ${op}`);
+  if (member instanceof OptionalValue) {
+    return member.value === undefined ? member : selectOptional(member.value, field, span, env);
+  }
+  const present = selectField(member, field, true, span, env) as BoolValue;
+  return new OptionalValue(present.value ? selectField(member, field, false, span, env) : undefined);
+}
+
+// Resolves a.b.c by trying the longest variable name first, selecting the remaining parts as fields
+function evalQualifiedName(expr: IdentExpr | SelectExpr, env: Env): Value {
+  const name = qualifiedName(expr);
+  const absolute = name.startsWith(".");
+  const parts = (absolute ? name.slice(1) : name).split(".");
+  const local = absolute ? undefined : env.locals.get(parts[0]);
+  if (local instanceof CelError) {
+    throw local;
+  }
+  if (local !== undefined) {
+    const value = local instanceof LazyValue ? local.get() : local;
+    return parts.slice(1).reduce((value, field) => selectField(value, field, false, expr.span, env), value);
+  }
+  for (let length = parts.length; length > 0; length--) {
+    const prefix = `${absolute ? "." : ""}${parts.slice(0, length).join(".")}`;
+    for (const candidate of candidateNames(prefix, env.container)) {
+      if (env.unknowns.includes(candidate)) {
+        return new UnknownValue([[candidate, ...parts.slice(length)].join(".")]);
       }
-    }, member.value);
-    return new FloatValue(value);
-  }
-  if (member instanceof BoolValue) {
-    const value = ops.reduce((acc, op) => {
-      switch (op) {
-        case "!":
-          return !acc;
-        default:
-          throw new Error(`Unexpected operator ${op}`);
+      // Own properties only, so that names such as toString are not found on Object.prototype
+      if (Object.prototype.hasOwnProperty.call(env.activation, candidate)) {
+        const fields = parts.slice(length);
+        return fields.reduce(
+          (value, field) => selectField(value, field, false, expr.span, env),
+          env.activation[candidate]
+        );
       }
-    }, member.value);
-    return new BoolValue(value);
+    }
+  }
+  for (const candidate of candidateNames(name, env.container)) {
+    const enumValue = env.typeProvider.findEnumValue?.(candidate);
+    if (enumValue !== undefined) {
+      return new IntValue(BigInt(enumValue));
+    }
   }
-  throw new Error(`Unexpected operators ${ops}`);
+  throw new CelError(`Unexpected identifier ${name}`, expr.span);
 }
 
-function evalMember(member: Member, activation: Activation): Value {
-  if (member instanceof IndexExpr) {
-    return evalIndexExpr(member, activation);
+// Optional elements and entries are left out when their value is empty
+function evalCreateListExpr(createListExpr: CreateListExpr, env: Env): Value {
+  const values = evalStrict(createListExpr.elements, env);
+  if (values instanceof UnknownValue) {
+    return values;
   }
-  if (member instanceof FuncCallExpr) {
-    return evalFuncCallExpr(member, activation);
+  const elements: Value[] = [];
+  createListExpr.elements.forEach((expr, index) => {
+    const value = values[index];
+    const element = createListExpr.optionalIndices.includes(index) ? optionalContent(value, expr.span) : value;
+    if (element !== undefined) {
+      elements.push(element);
+    }
+  });
+  return new ListValue(elements);
+}
+
+function evalCreateMapExpr(createMapExpr: CreateMapExpr, env: Env): Value {
+  const values = evalStrict(
+    createMapExpr.entries.flatMap((entry) => [entry.key, entry.value]),
+    env
+  );
+  if (values instanceof UnknownValue) {
+    return values;
   }
-  return evalPrimary(member, activation);
+  const entries: [Value, Value][] = [];
+  for (const [index, entry] of createMapExpr.entries.entries()) {
+    const [key, evaluated] = values.slice(2 * index, 2 * index + 2);
+    const value = entry.optional ? optionalContent(evaluated, entry.value.span) : evaluated;
+    if (value !== undefined) {
+      entries.push([key, value]);
+    }
+  }
+  return new MapValue(entries);
 }
 
-function evalIndexExpr(indexExpr: IndexExpr, activation: Activation): Value {
-  const member = evalMember(indexExpr.member, activation);
-  const index = evalExpr(indexExpr.index, activation);
-  if (member instanceof ListValue) {
-    if (!(index instanceof IntValue || index instanceof UintValue)) {
-      throw new Error(`Unexpected index ${index}`);
+function optionalContent(value: Value, span: Span): Value | undefined {
+  if (!(value instanceof OptionalValue)) {
+    throw new CelError(`Expected an optional value, got ${value}`, span);
+  }
+  return value.value;
+}
+
+function evalCreateStructExpr(createStructExpr: CreateStructExpr, env: Env): Value {
+  const typeName = candidateNames(createStructExpr.messageName, env.container).find(
+    (candidate) => env.typeProvider.findType(candidate) !== undefined
+  );
+  if (typeName === undefined) {
+    throw new CelError(`Unknown type ${createStructExpr.messageName}`, createStructExpr.span);
+  }
+  const values = evalStrict(
+    createStructExpr.fields.map((field) => field.value),
+    env
+  );
+  if (values instanceof UnknownValue) {
+    return values;
+  }
+  const fields: Record<string, Value> = {};
+  for (const [index, { field, value: expr, optional }] of createStructExpr.fields.entries()) {
+    const fieldType = env.typeProvider.findFieldType(typeName, field);
+    if (fieldType === undefined) {
+      throw new CelError(`Unknown field ${field} on type ${typeName}`, expr.span);
+    }
+    if (Object.prototype.hasOwnProperty.call(fields, field)) {
+      throw new CelError(`Duplicate field ${field}`, expr.span);
+    }
+    const value = optional ? optionalContent(values[index], expr.span) : values[index];
+    if (value === undefined) {
+      continue;
+    }
+    if (!valueHasType(value, fieldType)) {
+      throw new CelError(`Field ${field} on type ${typeName} expects ${fieldType}`, expr.span);
+    }
+    if (value instanceof NullValue && fieldType instanceof MessageType) {
+      continue;
     }
-    return member.value[index.value];
+    fields[field] = value;
   }
-  if (member instanceof MapValue) {
-    const item = member.value.find(([key]) => valuesEqual(key, index));
-    if (!item) {
-      throw new Error(`Key not found ${index}`);
+  return new StructValue(typeName, fields);
+}
+
+function defaultValue(type: Type): Value {
+  if (type instanceof PrimitiveType) {
+    switch (type.name) {
+      case "int":
+        return new IntValue(0n);
+      case "uint":
+        return new UintValue(0n);
+      case "double":
+        return new FloatValue(0);
+      case "string":
+        return new StringValue("");
+      case "bytes":
+        return new ByteValue("");
+      case "bool":
+        return new BoolValue(false);
+      case "null_type":
+        return new NullValue();
     }
-    return item[1];
   }
-  throw new Error(`Unexpected member ${member}`);
+  if (type instanceof ListType) {
+    return new ListValue([]);
+  }
+  if (type instanceof MapType) {
+    return new MapValue([]);
+  }
+  if (type instanceof MessageType) {
+    return new StructValue(type.name, {});
+  }
+  return new NullValue();
 }
 
-function evalFuncCallExpr(funcCallExpr: FuncCallExpr, activation: Activation): Value {
-  const member = funcCallExpr.member;
-  if (!(member instanceof Ident)) {
-    throw new Error(`Unexpected member ${member}`);
+function valueHasType(value: Value, type: Type): boolean {
+  if (type instanceof DynType || type instanceof TypeParamType) {
+    return true;
+  }
+  if (type instanceof PrimitiveType) {
+    switch (type.name) {
+      case "int":
+        return value instanceof IntValue;
+      case "uint":
+        return value instanceof UintValue;
+      case "double":
+        return value instanceof FloatValue;
+      case "string":
+        return value instanceof StringValue;
+      case "bytes":
+        return value instanceof ByteValue;
+      case "bool":
+        return value instanceof BoolValue;
+      case "null_type":
+        return value instanceof NullValue;
+    }
+  }
+  if (type instanceof ListType) {
+    return value instanceof ListValue && value.value.every((elem) => valueHasType(elem, type.elemType));
   }
-  const method = member.name;
-  const args = funcCallExpr.exprs.map((expr) => evalExpr(expr, activation));
-  return builtin(method, ...args);
+  if (type instanceof MapType) {
+    return (
+      value instanceof MapValue &&
+      value.value.every(([key, elem]) => valueHasType(key, type.keyType) && valueHasType(elem, type.valueType))
+    );
+  }
+  if (type instanceof OptionalType) {
+    return value instanceof OptionalValue && (value.value === undefined || valueHasType(value.value, type.elemType));
+  }
+  // Message fields also accept null to leave them unset
+  return (value instanceof StructValue && value.typeName === type.name) || value instanceof NullValue;
 }
 
-function evalPrimary(primary: Primary, activation: Activation): Value {
-  if (primary instanceof IntLit) {
-    return new IntValue(primary.value);
+function evalIndex(operand: Value, index: Value, span: Span): Value {
+  if (operand instanceof OptionalValue) {
+    return operand.value === undefined ? operand : evalOptionalIndex(operand.value, index, span);
   }
-  if (primary instanceof UintLit) {
-    return new UintValue(primary.value);
+  if (operand instanceof ListValue) {
+    if (!(index instanceof IntValue || index instanceof UintValue)) {
+      throw new CelError(`Unexpected index ${index}`, span);
+    }
+    if (index.value < 0n || index.value >= operand.value.length) {
+      throw new CelError(`Index out of range ${index.value}`, span);
+    }
+    return operand.value[Number(index.value)];
   }
-  if (primary instanceof FloatLit) {
-    return new FloatValue(primary.value);
+  if (operand instanceof MapValue) {
+    const item = operand.value.find(([key]) => valuesEqual(key, index));
+    if (!item) {
+      throw new CelError(`Key not found ${index}`, span);
+    }
+    return item[1];
   }
-  if (primary instanceof StringLit) {
-    return new StringValue(primary.value);
+  throw new CelError(`Unexpected operand ${operand}`, span);
+}
+
+function evalOptionalIndex(operand: Value, index: Value, span: Span): Value {
+  if (operand instanceof OptionalValue) {
+    return operand.value === undefined ? operand : evalOptionalIndex(operand.value, index, span);
   }
-  if (primary instanceof ByteLit) {
-    return new ByteValue(primary.value);
+  if (operand instanceof ListValue) {
+    if (!(index instanceof IntValue || index instanceof UintValue)) {
+      throw new CelError(`Unexpected index ${index}`, span);
+    }
+    const inRange = index.value >= 0n && index.value < operand.value.length;
+    return new OptionalValue(inRange ? operand.value[Number(index.value)] : undefined);
   }
-  if (primary instanceof BoolLit) {
-    return new BoolValue(primary.value);
+  if (operand instanceof MapValue) {
+    const item = operand.value.find(([key]) => valuesEqual(key, index));
+    return new OptionalValue(item?.[1]);
   }
-  if (primary instanceof NullLit) {
-    return new NullValue();
+  throw new CelError(`Unexpected operand ${operand}`, span);
+}
+
+// With one variable a comprehension iterates over list elements or map keys,
+// with two over list indexes and elements or map keys and values
+function evalComprehensionExpr(comprehensionExpr: ComprehensionExpr, env: Env): Value {
+  const { iterVar, iterVar2, accuVar } = comprehensionExpr;
+  const range = evalExpr(comprehensionExpr.iterRange, env);
+  if (range instanceof UnknownValue) {
+    return range;
   }
-  if (primary instanceof Ident) {
-    return evalIdent(primary, activation);
+  let entries: [Value, Value][];
+  if (range instanceof ListValue) {
+    entries = range.value.map((elem, index) => [new IntValue(BigInt(index)), elem]);
+  } else if (range instanceof MapValue) {
+    entries = range.value;
+  } else {
+    throw new CelError(`Unexpected range ${range}`, comprehensionExpr.iterRange.span);
   }
-  if (primary instanceof ListExpr) {
-    return new ListValue(primary.exprs.map((expr) => evalExpr(expr, activation)));
+  // Lazy so that cel.bind() evaluates its value only if the body reads it
+  let accu: Value | CelError | LazyValue = new LazyValue(() => evalExpr(comprehensionExpr.accuInit, env));
+  for (const [key, value] of entries) {
+    const loopEnv =
+      iterVar2 !== undefined
+        ? env.bind(accuVar, accu).bind(iterVar, key).bind(iterVar2, value)
+        : env.bind(accuVar, accu).bind(iterVar, range instanceof ListValue ? value : key);
+    const cond = evalExpr(comprehensionExpr.loopCondition, loopEnv);
+    if (cond instanceof BoolValue && !cond.value) {
+      break;
+    }
+    accu = evalOrError(comprehensionExpr.loopStep, loopEnv);
+  }
+  return evalExpr(comprehensionExpr.result, env.bind(accuVar, accu));
+}
+
+// Takes a key and a value or a map of entries, as built by transformMap() and transformMapEntry()
+function evalMapInsert(args: Value[], span: Span): Value {
+  const [map, ...rest] = args;
+  const entries: [Value, Value][] | undefined =
+    rest.length === 2 ? [[rest[0], rest[1]]] : rest[0] instanceof MapValue ? rest[0].value : undefined;
+  if (!(map instanceof MapValue) || entries === undefined) {
+    throw new CelError(`Unexpected operands ${args.join(", ")}`, span);
   }
-  if (primary instanceof MapExpr) {
-    return new MapValue(primary.exprs.map(([key, value]) => [evalExpr(key, activation), evalExpr(value, activation)]));
+  for (const [key] of entries) {
+    if (map.value.some(([existing]) => valuesEqual(existing, key))) {
+      throw new CelError(`Duplicate key ${key.value}`, span);
+    }
   }
-  return evalExpr(primary, activation);
+  return new MapValue([...map.value, ...entries]);
 }
 
-function evalIdent(ident: Ident, activation: Activation): Value {
-  if (!activation[ident.name]) {
-    throw new Error(`Unexpected identifier ${ident.name}`);
+function withSpan<T>(span: Span, fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    if (e instanceof CelError || !(e instanceof Error)) {
+      throw e;
+    }
+    throw new CelError(e.message, span);
   }
-  return activation[ident.name];
 }
 
 function testInterpreter() {
   const input = `!!(myNum == 123 && (myStr == "hello" || myBool == true) ? myNum + 1 == 2 : -myNum - 1 == 10)`;
   // const input = `true && size(myStr) == 3`;
+  // const input = `false && 1 / 0 == 1`;
   // const input = `{ "a": 1, "b": 2 } == { "a": 1, "b": 2 }`;
   // const input = `{ "a": [1, 2], "b": { "c": 3 } }["b"]["c"] == 3`;
   const lexed = lexer(input);
   const parsed = parser(lexed);
   const activation = {
-    myNum: new IntValue(13),
+    myNum: new IntValue(13n),
     myStr: new StringValue("hello"),
     myBool: new BoolValue(true),
   };
@@ -443,6 +1059,32 @@ function testInterpreter() {
   const myBool = true;
   const result2 = !!(myNum == 123 && (myStr == "hello" || myBool == true) ? myNum + 1 == 2 : -myNum - 1 == 10);
   console.log(result2);
+
+  // Error paths, names of Object.prototype members are neither types nor fields
+  const typeProvider = new StructTypeProvider({ "acme.T": { name: STRING_TYPE } });
+  const cases = [
+    `acme.T{name: 'a'}.toString`,
+    `has(acme.T{name: 'a'}.constructor)`,
+    `acme.T{constructor: null}`,
+    `toString{}`,
+    // Nor are they builtin functions
+    `'a'.toString()`,
+    `1.constructor()`,
+    // Macros and optionals on operands of the wrong kind
+    `1.all(x, x)`,
+    `[1].all(x, x)`,
+    `optional.none().value()`,
+    `1.?a`,
+  ];
+  for (const input of cases) {
+    try {
+      console.log(`${input} -> ${interpreter(parser(lexer(input)), {}, { typeProvider })}`);
+    } catch (e) {
+      console.log(`${input} -> ${e instanceof CelError ? e.reason : e}`);
+    }
+  }
 }
 
-testInterpreter();
+if (require.main === module) {
+  testInterpreter();
+}
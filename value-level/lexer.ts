@@ -28,11 +28,15 @@ RESERVED       ::= BOOL_LIT | NULL_LIT | "in"
                  | "loop" | "package" | "namespace" | "return"
                  | "var" | "void" | "while"
 WHITESPACE     ::= [\t\n\f\r ]+
-COMMENT        ::= '//' ~NEWLINE* NEWLINE
+COMMENT        ::= '//' ~NEWLINE* (NEWLINE | EOF)
 */
 
+import { CelError, Source, Span } from "./source";
+import { MAX_UINT64, MIN_INT64 } from "./types";
+
 export type Token =
   | ControlToken
+  | OperatorToken
   | IdentToken
   | IntLitToken
   | UintLitToken
@@ -43,429 +47,463 @@ export type Token =
   | NullLitToken
   | ReservedToken
   | WhitespaceToken
-  | CommentToken;
+  | CommentToken
+  | ErrorToken
+  | EofToken;
 
 export class ControlToken {
-  constructor(public readonly control: string) {}
+  constructor(public readonly control: string, public readonly span: Span) {}
 }
 
 export class OperatorToken {
-  constructor(public readonly operator: string) {}
+  constructor(public readonly operator: string, public readonly span: Span) {}
 }
 
 export class IdentToken {
-  constructor(public readonly ident: string) {}
+  constructor(public readonly ident: string, public readonly span: Span) {}
 }
 
+// Int literals up to 2^63 are lexed, the parser allows 2^63 only after a unary minus
 export class IntLitToken {
-  constructor(public readonly value: number) {}
+  constructor(public readonly value: bigint, public readonly span: Span) {}
 }
 
 export class UintLitToken {
-  constructor(public readonly value: number) {}
+  constructor(public readonly value: bigint, public readonly span: Span) {}
 }
 
 export class FloatLitToken {
-  constructor(public readonly value: number) {}
+  constructor(public readonly value: number, public readonly span: Span) {}
 }
 
 export class StringLitToken {
-  constructor(public readonly value: string) {}
+  constructor(public readonly value: string, public readonly span: Span) {}
 }
 
 export class ByteLitToken {
-  constructor(public readonly value: string) {}
+  constructor(public readonly value: string, public readonly span: Span) {}
 }
 
 export class BoolLitToken {
-  constructor(public readonly value: boolean) {}
+  constructor(public readonly value: boolean, public readonly span: Span) {}
 }
 
 export class NullLitToken {
-  constructor(public readonly value: null = null) {}
+  constructor(public readonly value: null, public readonly span: Span) {}
 }
 
 export class ReservedToken {
-  constructor(public readonly keyword: string) {}
+  constructor(public readonly keyword: string, public readonly span: Span) {}
+}
+
+export class WhitespaceToken {
+  constructor(public readonly text: string, public readonly span: Span) {} // Ignored unless preserving trivia
+}
+
+export class CommentToken {
+  constructor(public readonly text: string, public readonly span: Span) {} // Ignored unless preserving trivia
 }
 
-export class WhitespaceToken {} // Ignored
+// Text that could not be lexed, parser() reports the error and parses the token as an erroneous operand
+export class ErrorToken {
+  constructor(public readonly error: CelError, public readonly span: Span) {}
+}
 
-export class CommentToken {} // Ignored
+export class EofToken {
+  constructor(public readonly span: Span) {} // Always the last token
+}
+
+export interface LexerOptions {
+  // Keep whitespace and comments so that the tokens join back into the input
+  preserveTrivia?: boolean;
+  // Stops lexing once passed, so that oversized input is never tokenized in full
+  maxCodePointLength?: number;
+}
+
+// Same length limit as the parser, so that input the parser accepts is lexed in full
+const DEFAULT_LEXER_OPTIONS: Required<LexerOptions> = {
+  preserveTrivia: false,
+  maxCodePointLength: 100000,
+};
 
 const CONTROLS = ["?", ":", ".", "(", ")", "[", "]", "{", "}", ","];
 // prettier-ignore
-const OPERATORS = ["||", "&&", "<", "<=", ">=", ">", "==", "!=", "in", "+", "-", "*", "/", "%", "!"];
+const OPERATORS = ["||", "&&", "<", "<=", ">=", ">", "==", "!=", "+", "-", "*", "/", "%", "!"];
 // prettier-ignore
 const RESERVED = ["as", "break", "const", "continue", "else", "for", "function", "if", "import", "let", "loop", "package", "namespace", "return", "var", "void", "while"];
 
-export function lexer(input: string): Token[] {
+// Punctuators indexed by their first character, longest first for maximal munch
+const PUNCTUATORS: Record<string, string[]> = {};
+for (const punctuator of [...CONTROLS, ...OPERATORS]) {
+  (PUNCTUATORS[punctuator[0]] ??= []).push(punctuator);
+}
+for (const candidates of Object.values(PUNCTUATORS)) {
+  candidates.sort((a, b) => b.length - a.length);
+}
+
+// Prefixes that turn an identifier-like start into a string or bytes literal, longest first
+const QUOTE_PREFIXES = ["br", "bR", "Br", "BR", "r", "R", "b", "B"];
+
+type Lexed<T> = [T, number] | undefined;
+
+// Never throws, malformed text becomes ErrorTokens so that the parser can report every error at once
+export function lexer(input: string, lexerOptions: LexerOptions = {}): Token[] {
+  const options = { ...DEFAULT_LEXER_OPTIONS, ...lexerOptions };
   const tokens: Token[] = [];
-  const lexers = [
-    lexWhitespace,
-    lexComment,
-    lexControl, // Before lexIdent
-    lexOperator, // Before lexIdent
-    lexReserved, // Before lexIdent
-    lexUintLit, // Before lexIntLit
-    lexIntLit,
-    lexFloat,
-    lexStringLit,
-    lexByteLit,
-    lexBoolLit,
-    lexNullLit,
-    lexIdent,
-  ];
-  while (input !== "") {
-    let found = false;
-    for (const lexer of lexers) {
-      const lexed = lexer(input);
-      if (lexed !== undefined) {
-        const [token, rest] = lexed;
-        tokens.push(token);
-        input = rest;
-        found = true;
-        break;
-      }
-    }
-    if (!found) {
-      throw new Error(`Unexpected character: ${input[0]}`);
+  const source = new Source(input);
+  const maxLength = options.maxCodePointLength;
+  // A code point takes one or two UTF-16 units, so shorter input can skip counting
+  const limit = input.length > maxLength ? source.offsetOfCodePoint(maxLength) : input.length;
+  let pos = 0;
+  while (pos < limit) {
+    const [token, end] = lexToken(source, pos) ?? lexUnexpected(source, pos);
+    if (options.preserveTrivia || !(token instanceof WhitespaceToken || token instanceof CommentToken)) {
+      tokens.push(token);
     }
+    pos = end;
   }
-  return tokens.filter((token) => !(token instanceof WhitespaceToken || token instanceof CommentToken));
+  if (pos < input.length) {
+    const span = source.span(limit, limit);
+    tokens.push(
+      new ErrorToken(new CelError(`Expression exceeds the maximum length of ${maxLength} code points`, span), span)
+    );
+  }
+  tokens.push(new EofToken(source.span(pos, pos)));
+  return tokens;
 }
 
-function lexControl(input: string): [ControlToken, string] | undefined {
-  for (const control of CONTROLS) {
-    if (input.startsWith(control)) {
-      return [new ControlToken(control), input.slice(1)];
-    }
+export function joinTokens(tokens: Token[]): string {
+  return tokens.map((token) => token.span.text).join("");
+}
+
+function lexUnexpected(source: Source, start: number): [ErrorToken, number] {
+  const char = String.fromCodePoint(source.text.codePointAt(start)!);
+  const span = source.span(start, start + char.length);
+  return [new ErrorToken(new CelError(`Unexpected character: ${char}`, span), span), start + char.length];
+}
+
+// Dispatches on the first character so that each position is scanned only once
+function lexToken(source: Source, start: number): Lexed<Token> {
+  const c = source.text[start];
+  const next = source.text[start + 1];
+  if (isWhitespace(c)) {
+    return lexWhitespace(source, start);
   }
-  return undefined;
+  if (c === "/" && next === "/") {
+    return lexComment(source, start);
+  }
+  if (c === `"` || c === `'`) {
+    return lexStringLit(source, start);
+  }
+  if (isDigit(c) || (c === "." && isDigit(next))) {
+    return lexNumber(source, start);
+  }
+  if (isIdentStart(c)) {
+    return lexPrefixedLit(source, start) ?? lexWord(source, start);
+  }
+  return lexPunctuator(source, start);
 }
 
-function lexOperator(input: string): [OperatorToken, string] | undefined {
-  for (const operator of OPERATORS) {
-    if (input.startsWith(operator)) {
-      return [new OperatorToken(operator), input.slice(operator.length)];
+function lexPunctuator(source: Source, start: number): Lexed<ControlToken | OperatorToken> {
+  for (const punctuator of PUNCTUATORS[source.text[start]] ?? []) {
+    if (source.text.startsWith(punctuator, start)) {
+      const end = start + punctuator.length;
+      const span = source.span(start, end);
+      if (CONTROLS.includes(punctuator)) {
+        return [new ControlToken(punctuator, span), end];
+      }
+      return [new OperatorToken(punctuator, span), end];
     }
   }
   return undefined;
 }
 
-function isIdentStart(c: string): boolean {
-  return (c >= "a" && c <= "z") || (c >= "A" && c <= "Z") || c === "_";
+function isIdentStart(c: string | undefined): boolean {
+  return c !== undefined && ((c >= "a" && c <= "z") || (c >= "A" && c <= "Z") || c === "_");
 }
 
-function isIdentPart(c: string): boolean {
-  return isIdentStart(c) || (c >= "0" && c <= "9");
+function isIdentPart(c: string | undefined): boolean {
+  return isIdentStart(c) || isDigit(c);
 }
 
-function lexIdent(input: string): [Token, string] | undefined {
-  let ident = "";
-  if (!isIdentStart(input[0])) {
-    return undefined;
+// Scans a whole identifier before classifying it, so keywords never match a prefix of a longer identifier
+function lexWord(source: Source, start: number): Lexed<Token> {
+  let end = start;
+  while (isIdentPart(source.text[end])) {
+    end++;
+  }
+  const word = source.text.slice(start, end);
+  const span = source.span(start, end);
+  switch (word) {
+    case "true":
+      return [new BoolLitToken(true, span), end];
+    case "false":
+      return [new BoolLitToken(false, span), end];
+    case "null":
+      return [new NullLitToken(null, span), end];
+    case "in":
+      return [new OperatorToken(word, span), end];
   }
-  while (isIdentPart(input[0])) {
-    ident += input[0];
-    input = input.slice(1);
+  if (RESERVED.includes(word)) {
+    return [new ReservedToken(word, span), end];
   }
-  return [new IdentToken(ident), input];
+  return [new IdentToken(word, span), end];
 }
 
-function isDigit(c: string): boolean {
-  return c >= "0" && c <= "9";
+function isDigit(c: string | undefined): boolean {
+  return c !== undefined && c >= "0" && c <= "9";
 }
 
-function isHexDigit(c: string): boolean {
-  return (c >= "0" && c <= "9") || (c >= "a" && c <= "f") || (c >= "A" && c <= "F");
+function isHexDigit(c: string | undefined): boolean {
+  return c !== undefined && ((c >= "0" && c <= "9") || (c >= "a" && c <= "f") || (c >= "A" && c <= "F"));
 }
 
-function lexUintLit(input: string): [UintLitToken, string] | undefined {
-  const lexed = lexIntLit(input);
-  if (lexed === undefined) {
-    return undefined;
-  }
-  const [token, rest] = lexed;
-  if (input.startsWith("u") || input.startsWith("U")) {
-    return [new UintLitToken(token.value), rest.slice(1)];
-  }
-  return undefined;
+function isOctDigit(c: string | undefined): boolean {
+  return c !== undefined && c >= "0" && c <= "7";
 }
 
-function lexIntLit(input: string): [IntLitToken, string] | undefined {
-  const lexers = [lexIntLitDec, lexIntLitHex];
-  for (const lexer of lexers) {
-    const lexed = lexer(input);
-    if (lexed !== undefined) {
-      return lexed;
+// Negative numbers are lexed as a unary minus followed by a literal
+function lexNumber(source: Source, start: number): Lexed<IntLitToken | UintLitToken | FloatLitToken | ErrorToken> {
+  const text = source.text;
+  let end = start;
+  if (text.startsWith("0x", start) && isHexDigit(text[start + 2])) {
+    end += 2;
+    while (isHexDigit(text[end])) {
+      end++;
     }
+    return lexUintSuffix(source, start, end, BigInt(text.slice(start, end)));
   }
-  return undefined;
-}
-
-function lexIntLitDec(input: string): [IntLitToken, string] | undefined {
-  let positive = true;
-  if (input.startsWith("-")) {
-    positive = false;
-    input = input.slice(1);
+  let float = false;
+  while (isDigit(text[end])) {
+    end++;
   }
-  let digits = "";
-  if (!isDigit(input[0])) {
-    return undefined;
+  if (text[end] === "." && isDigit(text[end + 1])) {
+    float = true;
+    end++;
+    while (isDigit(text[end])) {
+      end++;
+    }
   }
-  while (isDigit(input[0])) {
-    digits += input[0];
-    input = input.slice(1);
+  const exponent = lexExponent(source, end);
+  if (exponent !== undefined) {
+    float = true;
+    end = exponent;
   }
-  return [new IntLitToken(parseInt(digits) * (positive ? 1 : -1)), input];
-}
-
-function lexIntLitHex(input: string): [IntLitToken, string] | undefined {
-  let positive = true;
-  if (input.startsWith("-")) {
-    positive = false;
-    input = input.slice(1);
+  if (float) {
+    return [new FloatLitToken(parseFloat(text.slice(start, end)), source.span(start, end)), end];
   }
-  if (input.startsWith("0x")) {
-    input = input.slice(2);
-    let digits = "";
-    if (!isHexDigit(input[0])) {
-      return undefined;
-    }
-    while (isHexDigit(input[0])) {
-      digits += input[0];
-      input = input.slice(1);
-    }
-    return [new IntLitToken(parseInt(digits, 16) * (positive ? 1 : -1)), input];
-  }
-  return undefined;
+  return lexUintSuffix(source, start, end, BigInt(text.slice(start, end)));
 }
 
-function lexFloat(input: string): [FloatLitToken, string] | undefined {
-  const lexers = [lexFloatWithDot, lexFloatWithoutDot];
-  for (const lexer of lexers) {
-    const lexed = lexer(input);
-    if (lexed !== undefined) {
-      return lexed;
+function lexUintSuffix(
+  source: Source,
+  start: number,
+  end: number,
+  value: bigint
+): Lexed<IntLitToken | UintLitToken | ErrorToken> {
+  if (source.text[end] === "u" || source.text[end] === "U") {
+    const span = source.span(start, end + 1);
+    if (value > MAX_UINT64) {
+      return [new ErrorToken(new CelError("Integer literal out of range", span), span), end + 1];
     }
+    return [new UintLitToken(value, span), end + 1];
   }
-  return undefined;
-}
-
-function lexFloatWithDot(input: string): [FloatLitToken, string] | undefined {
-  let positive = true;
-  if (input.startsWith("-")) {
-    positive = false;
-    input = input.slice(1);
-  }
-  let digits = "";
-  while (isDigit(input[0])) {
-    digits += input[0];
-    input = input.slice(1);
+  if (value > -MIN_INT64) {
+    const span = source.span(start, end);
+    return [new ErrorToken(new CelError("Integer literal out of range", span), span), end];
   }
+  return [new IntLitToken(value, source.span(start, end)), end];
+}
 
-  if (!input.startsWith(".")) {
+// Returns the end of the exponent, if any
+function lexExponent(source: Source, start: number): number | undefined {
+  const text = source.text;
+  if (text[start] !== "e" && text[start] !== "E") {
     return undefined;
   }
-  input = input.slice(1);
-
-  let decimals = "";
-  while (isDigit(input[0])) {
-    decimals += input[0];
-    input = input.slice(1);
+  let end = start + 1;
+  if (text[end] === "+" || text[end] === "-") {
+    end++;
   }
-  if (decimals === "") {
+  if (!isDigit(text[end])) {
     return undefined;
   }
-  const lexed = lexExponent(input);
-  if (lexed === undefined) {
-    return [new FloatLitToken(parseFloat(`${digits}.${decimals}`)), input];
+  while (isDigit(text[end])) {
+    end++;
   }
-  const [exponent, rest] = lexed;
-  return [new FloatLitToken(parseFloat(`${digits}.${decimals}e${exponent}`) * (positive ? 1 : -1)), rest];
+  return end;
 }
 
-function lexFloatWithoutDot(input: string): [FloatLitToken, string] | undefined {
-  let positive = true;
-  if (input.startsWith("-")) {
-    positive = false;
-    input = input.slice(1);
-  }
-  let digits = "";
-  while (isDigit(input[0])) {
-    digits += input[0];
-    input = input.slice(1);
-  }
-  if (digits === "") {
+function lexPrefixedLit(source: Source, start: number): Lexed<StringLitToken | ByteLitToken | ErrorToken> {
+  const prefix = QUOTE_PREFIXES.find(
+    (prefix) => source.text.startsWith(prefix, start) && isQuote(source.text[start + prefix.length])
+  );
+  if (prefix === undefined) {
     return undefined;
   }
-  const lexed = lexExponent(input);
-  if (lexed === undefined) {
-    return undefined;
+  if (prefix[0] === "b" || prefix[0] === "B") {
+    return lexByteLit(source, start);
   }
-  const [exponent, rest] = lexed;
-  return [new FloatLitToken(parseFloat(`${digits}e${exponent}`) * (positive ? 1 : -1)), rest];
+  return lexStringLit(source, start);
+}
+
+function isQuote(c: string | undefined): boolean {
+  return c === `"` || c === `'`;
 }
 
-function lexExponent(input: string): [number, string] | undefined {
-  if (!(input.startsWith("e") || input.startsWith("E"))) {
+function lexStringLit(source: Source, start: number): Lexed<StringLitToken | ErrorToken> {
+  const lexed = lexQuoted(source, start, false);
+  if (lexed === undefined) {
     return undefined;
   }
-  input = input.slice(1);
-  let positive = true;
-  if (input.startsWith("+") || input.startsWith("-")) {
-    if (input.startsWith("-")) {
-      positive = false;
-    }
-    input = input.slice(1);
-  }
-  let exponent = "";
-  while (isDigit(input[0])) {
-    exponent += input[0];
-    input = input.slice(1);
-  }
-  if (exponent === "") {
+  const [value, end] = lexed;
+  const span = source.span(start, end);
+  return [value instanceof CelError ? new ErrorToken(value, span) : new StringLitToken(value, span), end];
+}
+
+function lexByteLit(source: Source, start: number): Lexed<ByteLitToken | ErrorToken> {
+  const lexed = lexQuoted(source, start + 1, true);
+  if (lexed === undefined) {
     return undefined;
   }
-  return [parseFloat(exponent) * (positive ? 1 : -1), input];
+  const [value, end] = lexed;
+  const span = source.span(start, end);
+  return [value instanceof CelError ? new ErrorToken(value, span) : new ByteLitToken(value, span), end];
 }
 
-function lexStringLit(input: string): [StringLitToken, string] | undefined {
+// Bytes are represented as strings of code units between 0x00 and 0xFF.
+// A malformed literal gives its error, which spans the bad escape sequence or, if unterminated, the rest of the line.
+function lexQuoted(source: Source, start: number, bytes: boolean): Lexed<string | CelError> {
   let raw = false;
-  if (input.startsWith("r") || input.startsWith("R")) {
+  if (source.text[start] === "r" || source.text[start] === "R") {
     raw = true;
-    input = input.slice(1);
-  }
-  const lexers = [lexStringLitSingle, lexStringLitMulti];
-  for (const lexer of lexers) {
-    const lexed = lexer(input);
-    if (lexed !== undefined) {
-      const [str, rest] = lexed;
-      const token = new StringLitToken(raw ? String.raw`${str}` : str); // TODO: Make sure this works
-      return [token, rest];
-    }
+    start++;
   }
-  return undefined;
-}
-
-function lexStringLitSingle(input: string): [string, string] | undefined {
-  if (input.startsWith(`"`) || input.startsWith(`'`)) {
-    const quote = input[0];
-    input = input.slice(1);
-
-    let str = "";
-    let escape = false;
-    while (true) {
-      if (input[0] == "\\") {
-        escape = true;
-        input = input.slice(1);
-        continue;
+  if (!isQuote(source.text[start])) {
+    return undefined;
+  }
+  const multi = source.text.startsWith(source.text[start].repeat(3), start);
+  const quote = multi ? source.text.slice(start, start + 3) : source.text[start];
+  const bodyStart = start + quote.length;
+  let end = bodyStart;
+  while (!source.text.startsWith(quote, end)) {
+    if (end >= source.text.length || (!multi && isNewline(source.text[end]))) {
+      // A trailing backslash would skip past the end
+      end = Math.min(end, source.text.length);
+      return [new CelError("Unterminated string literal", source.span(start, end)), end];
+    }
+    end += source.text[end] === "\\" && !raw ? 2 : 1;
+  }
+  const body = source.text.slice(bodyStart, end);
+  end += quote.length;
+  if (raw) {
+    return [bytes ? encodeUtf8(body) : body, end];
+  }
+  try {
+    return [decodeEscapes(body, bodyStart, source, bytes), end];
+  } catch (e) {
+    if (!(e instanceof CelError)) {
+      throw e;
+    }
+    return [e, end];
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  "?": "?",
+  '"': '"',
+  "'": "'",
+  "`": "`",
+};
+
+function decodeEscapes(body: string, offset: number, source: Source, bytes: boolean): string {
+  let decoded = "";
+  let i = 0;
+  while (i < body.length) {
+    if (body[i] !== "\\") {
+      const char = String.fromCodePoint(body.codePointAt(i)!);
+      decoded += bytes ? encodeUtf8(char) : char;
+      i += char.length;
+      continue;
+    }
+    const escape = body[i + 1];
+    if (ESCAPES[escape] !== undefined) {
+      decoded += ESCAPES[escape];
+      i += 2;
+      continue;
+    }
+    if (escape === "x" || escape === "u" || escape === "U") {
+      const length = escape === "x" ? 2 : escape === "u" ? 4 : 8;
+      const digits = body.slice(i + 2, i + 2 + length);
+      const span = source.span(offset + i, offset + i + 2 + digits.length);
+      if (digits.length !== length || !Array.from(digits).every(isHexDigit)) {
+        throw new CelError(`Invalid escape sequence: \\${escape}${digits}`, span);
       }
-      if (startsWithNewline(input)) {
-        return undefined;
+      const code = parseInt(digits, 16);
+      if (bytes && escape !== "x") {
+        throw new CelError(`Unicode escape sequence in bytes literal: \\${escape}${digits}`, span);
       }
-      if (input.startsWith(quote) && !escape) {
-        return [str, input.slice(1)];
+      if ((code >= 0xd800 && code <= 0xdfff) || code > 0x10ffff) {
+        throw new CelError(`Invalid code point: \\${escape}${digits}`, span);
       }
-      str += input[0];
-      input = input.slice(1);
+      decoded += bytes ? String.fromCharCode(code) : String.fromCodePoint(code);
+      i += 2 + length;
+      continue;
     }
-  }
-  return undefined;
-}
-
-function lexStringLitMulti(input: string): [string, string] | undefined {
-  if (input.startsWith(`"""`) || input.startsWith(`'''`)) {
-    const quote = input.slice(0, 3);
-    input = input.slice(3);
-
-    let str = "";
-    while (true) {
-      if (input.startsWith(quote)) {
-        return [str, input.slice(str.length + 3)];
+    if (escape >= "0" && escape <= "3") {
+      const digits = body.slice(i + 1, i + 4);
+      if (digits.length !== 3 || !Array.from(digits).every(isOctDigit)) {
+        throw new CelError(
+          `Invalid escape sequence: \\${digits}`,
+          source.span(offset + i, offset + i + 1 + digits.length)
+        );
       }
-      str += input[0];
-      input = input.slice(1);
-    }
-  }
-  return undefined;
-}
-
-function lexByteLit(input: string): [ByteLitToken, string] | undefined {
-  if (input.startsWith("b") || input.startsWith("B")) {
-    const lexed = lexStringLit(input.slice(1));
-    if (lexed === undefined) {
-      return undefined;
+      decoded += String.fromCharCode(parseInt(digits, 8));
+      i += 4;
+      continue;
     }
-    const [token, rest] = lexed;
-    return [new ByteLitToken(token.value), rest];
-  }
-  return undefined;
-}
-
-function lexBoolLit(input: string): [BoolLitToken, string] | undefined {
-  if (input.startsWith("true")) {
-    return [new BoolLitToken(true), input.slice(4)];
-  }
-  if (input.startsWith("false")) {
-    return [new BoolLitToken(false), input.slice(5)];
-  }
-  return undefined;
-}
-
-function lexNullLit(input: string): [NullLitToken, string] | undefined {
-  if (input.startsWith("null")) {
-    return [new NullLitToken(), input.slice(4)];
+    throw new CelError(`Invalid escape sequence: \\${escape}`, source.span(offset + i, offset + i + 2));
   }
-  return undefined;
+  return decoded;
 }
 
-function lexReserved(input: string): [ReservedToken, string] | undefined {
-  for (const reserved of RESERVED) {
-    if (input.startsWith(reserved)) {
-      return [new ReservedToken(reserved), input.slice(reserved.length)];
-    }
-  }
-  return undefined;
+function encodeUtf8(str: string): string {
+  return Array.from(new TextEncoder().encode(str), (byte) => String.fromCharCode(byte)).join("");
 }
 
-function startsWithNewline(str: string): boolean {
-  return str.startsWith("\r\n") || str.startsWith("\r") || str.startsWith("\n");
+function isNewline(c: string | undefined): boolean {
+  return c === "\r" || c === "\n";
 }
 
-function startsWithWhitespace(str: string): boolean {
-  return (
-    str.startsWith(" ") || str.startsWith("\t") || str.startsWith("\n") || str.startsWith("\f") || str.startsWith("\r")
-  );
+function isWhitespace(c: string | undefined): boolean {
+  return c === " " || c === "\t" || c === "\n" || c === "\f" || c === "\r";
 }
 
-function lexWhitespace(input: string): [WhitespaceToken, string] | undefined {
-  if (!startsWithWhitespace(input)) {
-    return undefined;
+function lexWhitespace(source: Source, start: number): Lexed<WhitespaceToken> {
+  let end = start;
+  while (isWhitespace(source.text[end])) {
+    end++;
   }
-  while (true) {
-    if (startsWithWhitespace(input)) {
-      input = input.slice(1);
-      continue;
-    }
-    break;
-  }
-  return [new WhitespaceToken(), input];
+  const span = source.span(start, end);
+  return [new WhitespaceToken(span.text, span), end];
 }
 
-function lexComment(input: string): [CommentToken, string] | undefined {
-  if (input.startsWith("//")) {
-    while (true) {
-      if (startsWithNewline(input)) {
-        // TODO: Simplify this
-        const length = input.startsWith("\r\n") ? 2 : 1;
-        return [new CommentToken(), input.slice(length)];
-      }
-      input = input.slice(1);
-    }
+function lexComment(source: Source, start: number): Lexed<CommentToken> {
+  let end = start + 2;
+  while (end < source.text.length && !isNewline(source.text[end])) {
+    end++;
   }
-  return undefined;
+  end += source.text.startsWith("\r\n", end) ? 2 : end < source.text.length ? 1 : 0;
+  const span = source.span(start, end);
+  return [new CommentToken(span.text, span), end];
 }
 
 function testLexer() {
@@ -474,6 +512,12 @@ function testLexer() {
   for (const token of lexed) {
     console.log(token);
   }
+  // Oversized input stops at the limit with an ErrorToken instead of being tokenized in full
+  const oversized = lexer("(".repeat(1000000), { maxCodePointLength: 10 });
+  const last = oversized[oversized.length - 2];
+  console.log(`${oversized.length} tokens, ${last instanceof ErrorToken ? last.error.message : last}`);
 }
 
-testLexer();
+if (require.main === module) {
+  testLexer();
+}
@@ -12,37 +12,42 @@ Unary          ::= Member
                ;
 Member         ::= Primary
                | Member "." IDENT ["(" [ExprList] ")"]
-               | Member "[" Expr "]"
+               | Member "." "?" IDENT
+               | Member "[" ["?"] Expr "]"
                ;
 Primary        ::= ["."] IDENT ["(" [ExprList] ")"]
                | "(" Expr ")"
-               | "[" [ExprList] [","] "]"
+               | "[" [ListElements] [","] "]"
                | "{" [MapInits] [","] "}"
                | ["."] IDENT { "." IDENT } "{" [FieldInits] [","] "}"
                | LITERAL
                ;
 ExprList       ::= Expr {"," Expr} ;
-FieldInits     ::= IDENT ":" Expr {"," IDENT ":" Expr} ;
-MapInits       ::= Expr ":" Expr {"," Expr ":" Expr} ;
+ListElements   ::= ["?"] Expr {"," ["?"] Expr} ;
+FieldInits     ::= ["?"] IDENT ":" Expr {"," ["?"] IDENT ":" Expr} ;
+MapInits       ::= ["?"] Expr ":" Expr {"," ["?"] Expr ":" Expr} ;
 */
 
 /*
 NOTE:
 * Avoiding exceptions for functional design
 * Skipping LL(1) grammar for convenience
-* Skipping error handling for convenience
-* Skipping field selection because protobuf support is not implemented
-* Skipping field inits because protobuf support is not implemented
+* Advancing a shared cursor over the token array, so parsing takes linear time
+* Building the canonical AST from ast.ts directly, so the grammar layers leave no trace in the tree
+* Recovering from syntax errors by skipping to the next delimiter and reporting all of them at once
+* Limiting depth, length and sizes for untrusted input, see ParserOptions
+* Expanding has(), the comprehension macros such as all(), cel.bind() and user macros in the parser, like cel-go
+* Resolving message type names in field inits is left to the interpreter's type provider
 * Skipping partial evaluation
 */
 
 /*
 NOTE:
 Member  ::= Primary
-        | Member "." IDENT "(" [ExprList] ")"
+        | Member "." IDENT ["(" [ExprList] ")"]
         | Member "[" Expr "]"
         ;
-Member' ::= Primary {"." IDENT "(" [ExprList] ")" | "[" Expr "]"}
+Member' ::= Primary {"." IDENT ["(" [ExprList] ")"] | "[" Expr "]" | "{" [FieldInits] [","] "}"}
 Primary ::= LITERAL
         | IDENT ["(" [ExprList] ")"]
         | "(" Expr ")"
@@ -50,489 +55,1006 @@ Primary ::= LITERAL
         | "{" [MapInits] [","] "}" 
         ;
 */
+import {
+  ACCUMULATOR_VAR,
+  BINARY_OPERATORS,
+  BLOCK_FUNCTION,
+  BLOCK_INDEX_PREFIX,
+  CallExpr,
+  ComprehensionExpr,
+  CONDITIONAL_OPERATOR,
+  ConstExpr,
+  ConstKind,
+  CreateListExpr,
+  CreateMapExpr,
+  CreateStructExpr,
+  Expr,
+  IdentExpr,
+  INDEX_OPERATOR,
+  isQualifiedName,
+  MAP_INSERT,
+  MapEntry,
+  NOT_STRICTLY_FALSE,
+  OPTIONAL_INDEX,
+  OPTIONAL_SELECT,
+  qualifiedName,
+  SelectExpr,
+  StructField,
+  UNARY_OPERATORS,
+  UNUSED_ITER_VAR,
+} from "./ast";
 import {
   BoolLitToken,
   ByteLitToken,
   ControlToken,
+  EofToken,
+  ErrorToken,
   FloatLitToken,
   IdentToken,
   IntLitToken,
   lexer,
   NullLitToken,
   OperatorToken,
+  ReservedToken,
   StringLitToken,
   Token,
   UintLitToken,
 } from "./lexer";
+import { CelError, Span } from "./source";
+import { MAX_INT64 } from "./types";
 
-export type Expr = OrExpr | TernaryExpr;
+export class Diagnostic {
+  constructor(
+    public readonly message: string,
+    public readonly span: Span,
+    public readonly found: Token | undefined,
+    public readonly expected: string[]
+  ) {}
+}
 
-export class TernaryExpr {
-  constructor(public readonly cond: OrExpr, public readonly then?: OrExpr, public readonly els?: Expr) {}
+export class ParseError extends CelError {
+  constructor(public readonly diagnostics: Diagnostic[]) {
+    super(diagnostics[0].message, diagnostics[0].span);
+    this.name = "ParseError";
+    this.message = diagnostics
+      .map((diagnostic) => new CelError(diagnostic.message, diagnostic.span).message)
+      .join("\n");
+  }
 }
 
-export class OrExpr {
-  constructor(public readonly exprs: AndExpr[]) {}
+// Macros to expand and limits for parsing untrusted input, exceeding a limit fails the parse with a single diagnostic
+export interface ParserOptions {
+  // Replaces the standard macros, spread STANDARD_MACROS to add to them. Later macros win over earlier ones
+  // with the same name, style and argument count, and an empty list parses every call as a plain call
+  macros?: Macro[];
+  // Nesting of sub-expressions, where every operator and member access also counts as a level,
+  // except for && and || which are balanced instead
+  maxRecursionDepth?: number;
+  maxCodePointLength?: number;
+  maxListElements?: number;
+  // Applies to the field inits of messages as well
+  maxMapEntries?: number;
+  maxCallArguments?: number;
 }
 
-export class AndExpr {
-  constructor(public readonly exprs: RelExpr[]) {}
+// The default macros are STANDARD_MACROS, filled in by parser() as they are defined further down
+const DEFAULT_PARSER_OPTIONS: Omit<Required<ParserOptions>, "macros"> = {
+  maxRecursionDepth: 250,
+  maxCodePointLength: 100000,
+  maxListElements: Infinity,
+  maxMapEntries: Infinity,
+  maxCallArguments: Infinity,
+};
+
+// State shared by the parse functions during a single parser() call
+class ParserContext {
+  public readonly diagnostics: Diagnostic[] = [];
+  // Start offsets of the diagnostics, only the first error at each position is reported
+  public readonly reportedOffsets = new Set<number>();
+  public depth = 0;
+  // Index of the next token, the parse functions move it forward as they consume tokens
+  public pos = 0;
+  // Macros keyed by name, style and argument count
+  public readonly macros: Map<string, Macro>;
+  private lastId = 0;
+
+  constructor(public readonly tokens: Token[], public readonly options: Required<ParserOptions>) {
+    this.macros = new Map(options.macros.map((macro) => [macro.key, macro]));
+  }
+
+  // Looks ahead without consuming, the EofToken at the end repeats forever
+  peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  advance(): Token {
+    const token = this.peek();
+    this.pos = Math.min(this.pos + 1, this.tokens.length - 1);
+    return token;
+  }
+
+  nextId(): number {
+    return ++this.lastId;
+  }
 }
 
-export class RelExpr {
-  constructor(public readonly exprs: AddExpr[], public readonly ops: string[]) {}
+const MAX_DIAGNOSTICS = 100;
+const EXPR_START = ["identifier", "literal", ".", "(", "[", "{", "!", "-"];
+const END_OF_INPUT = "end of input";
+
+export function parser(tokens: Token[], options: ParserOptions = {}): Expr {
+  const ctx = new ParserContext(tokens, { ...DEFAULT_PARSER_OPTIONS, macros: STANDARD_MACROS, ...options });
+  const source = tokens[tokens.length - 1].span.source;
+  const maxLength = ctx.options.maxCodePointLength;
+  if (source.codePointOffset(source.text.length) > maxLength) {
+    const offset = source.offsetOfCodePoint(maxLength);
+    fail(ctx, `Expression exceeds the maximum length of ${maxLength} code points`, source.span(offset, offset));
+  }
+  // Lexer errors are reported first, so that parse errors at the same position do not repeat them
+  for (const token of tokens) {
+    if (token instanceof ErrorToken) {
+      addDiagnostic(ctx, new Diagnostic(token.error.reason, token.error.span, undefined, []));
+    }
+  }
+  const expr = parseExpr(ctx);
+  while (!(ctx.peek() instanceof EofToken)) {
+    // Skip to the next expression to look for further errors
+    report(ctx, [END_OF_INPUT]);
+    ctx.advance();
+    while (!(ctx.peek() instanceof EofToken || startsExpr(ctx.peek()))) {
+      ctx.advance();
+    }
+    if (startsExpr(ctx.peek())) {
+      parseExpr(ctx);
+    }
+  }
+  if (ctx.diagnostics.length > 0) {
+    throwDiagnostics(ctx);
+  }
+  return expr;
 }
 
-export class AddExpr {
-  constructor(public readonly exprs: MultExpr[], public readonly ops: string[]) {}
+// Gives up at the first exceeded limit, recovering would mean parsing the oversized input anyway
+function fail(ctx: ParserContext, message: string, span: Span): never {
+  ctx.diagnostics.push(new Diagnostic(message, span, undefined, []));
+  throwDiagnostics(ctx);
 }
 
-export class MultExpr {
-  constructor(public readonly exprs: UnaryExpr[], public readonly ops: string[]) {}
+// Gives up at the limit like cel-go, later errors tend to cascade from the earlier ones anyway
+function addDiagnostic(ctx: ParserContext, diagnostic: Diagnostic): void {
+  ctx.diagnostics.push(diagnostic);
+  ctx.reportedOffsets.add(diagnostic.span.start.offset);
+  if (ctx.diagnostics.length >= MAX_DIAGNOSTICS) {
+    throwDiagnostics(ctx);
+  }
 }
 
-export class UnaryExpr {
-  constructor(public readonly member: Member, public readonly ops: string[]) {}
+function throwDiagnostics(ctx: ParserContext): never {
+  ctx.diagnostics.sort((a, b) => a.span.start.offset - b.span.start.offset);
+  throw new ParseError(ctx.diagnostics);
 }
 
-export type Member = Primary | FuncCallExpr | IndexExpr;
+// Enters a nesting level at the given token, callers restore ctx.depth when they return
+function descend(token: Token, ctx: ParserContext): void {
+  ctx.depth++;
+  if (ctx.depth > ctx.options.maxRecursionDepth) {
+    fail(ctx, `Expression exceeds the maximum nesting depth of ${ctx.options.maxRecursionDepth}`, token.span);
+  }
+}
 
-export type Primary = Literal | Ident | Expr | ListExpr | MapExpr;
+function report(ctx: ParserContext, expected: string[], found: Token = ctx.peek()): void {
+  // Only the first error at each position is reported to avoid cascades
+  if (ctx.reportedOffsets.has(found.span.start.offset)) {
+    return;
+  }
+  const message = `Unexpected ${describeToken(found)}, expected ${describeExpected(expected)}`;
+  addDiagnostic(ctx, new Diagnostic(message, found.span, found, expected));
+}
 
-export type Literal = IntLit | UintLit | FloatLit | StringLit | ByteLit | BoolLit | NullLit;
+function describeToken(token: Token): string {
+  if (token instanceof EofToken) {
+    return END_OF_INPUT;
+  }
+  if (token instanceof IdentToken) {
+    return `identifier "${token.ident}"`;
+  }
+  if (token instanceof ReservedToken) {
+    return `reserved word "${token.keyword}"`;
+  }
+  if (token instanceof ControlToken || token instanceof OperatorToken) {
+    return `"${token.span.text}"`;
+  }
+  if (token instanceof ErrorToken) {
+    return `invalid token ${token.span.text}`;
+  }
+  return `literal ${token.span.text}`;
+}
 
-export class IntLit {
-  constructor(public readonly value: number) {}
+function describeExpected(expected: string[]): string {
+  const quoted = expected.map((item) => (/^[a-z ]+$/.test(item) ? item : `"${item}"`));
+  return quoted.length === 1 ? quoted[0] : `one of ${quoted.join(", ")}`;
 }
 
-export class UintLit {
-  constructor(public readonly value: number) {}
+function startsExpr(token: Token): boolean {
+  return (
+    token instanceof ErrorToken ||
+    token instanceof IdentToken ||
+    isLiteralToken(token) ||
+    matchesControlToken(token, ".", "(", "[", "{") ||
+    matchesOperatorToken(token, "!", "-")
+  );
 }
 
-export class FloatLit {
-  constructor(public readonly value: number) {}
+function isLiteralToken(token: Token): boolean {
+  return (
+    token instanceof IntLitToken ||
+    token instanceof UintLitToken ||
+    token instanceof FloatLitToken ||
+    token instanceof StringLitToken ||
+    token instanceof ByteLitToken ||
+    token instanceof BoolLitToken ||
+    token instanceof NullLitToken
+  );
 }
 
-export class StringLit {
-  constructor(public readonly value: string) {}
+// Tokens at which an enclosing construct can resume after an error
+function isSyncToken(token: Token): boolean {
+  return token instanceof EofToken || matchesControlToken(token, ")", "]", "}", ",", ":", "?");
 }
 
-export class ByteLit {
-  constructor(public readonly value: string) {}
+// Expects a closing delimiter, skipping to it if it appears later at the same nesting level
+function expectClosing(ctx: ParserContext, closing: string, expected: string[]): Token | undefined {
+  if (matchesControlToken(ctx.peek(), closing)) {
+    return ctx.advance();
+  }
+  report(ctx, expected);
+  let depth = 0;
+  for (let i = ctx.pos; i < ctx.tokens.length; i++) {
+    const token = ctx.tokens[i];
+    if (depth === 0 && matchesControlToken(token, closing)) {
+      ctx.pos = i + 1;
+      return token;
+    }
+    if (matchesControlToken(token, "(", "[", "{")) {
+      depth++;
+    } else if (matchesControlToken(token, ")", "]", "}")) {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+    }
+  }
+  return undefined;
 }
 
-export class BoolLit {
-  constructor(public readonly value: boolean) {}
+function matchesControlToken(token: Token, ...controls: string[]): token is ControlToken {
+  return token instanceof ControlToken && controls.includes(token.control);
 }
 
-export class NullLit {
-  constructor(public readonly value: null = null) {}
+function matchesOperatorToken(token: Token, ...operators: string[]): token is OperatorToken {
+  return token instanceof OperatorToken && operators.includes(token.operator);
 }
 
-export class ListExpr {
-  constructor(public readonly exprs: Expr[]) {}
+function newBinaryCall(ctx: ParserContext, operator: string, left: Expr, right: Expr): CallExpr {
+  return new CallExpr(ctx.nextId(), undefined, BINARY_OPERATORS[operator], [left, right], left.span.to(right.span));
 }
 
-export class MapExpr {
-  constructor(public readonly exprs: [Expr, Expr][]) {}
+// Chains of the associative logical operators become balanced trees like in cel-go, so long rules stay shallow
+function newBalancedCall(ctx: ParserContext, operator: string, operands: Expr[]): Expr {
+  if (operands.length === 1) {
+    return operands[0];
+  }
+  const middle = Math.floor(operands.length / 2);
+  const left = newBalancedCall(ctx, operator, operands.slice(0, middle));
+  const right = newBalancedCall(ctx, operator, operands.slice(middle));
+  return newBinaryCall(ctx, operator, left, right);
 }
 
-export class Ident {
-  constructor(public readonly name: string) {}
+// Stands in for an expression that failed to parse, parser() throws before it can be returned
+function newErrorExpr(ctx: ParserContext, span: Span): Expr {
+  return new ConstExpr(ctx.nextId(), "null", null, span);
 }
 
-export class IndexExpr {
-  constructor(public readonly member: Member, public readonly index: Expr) {}
+function parseExpr(ctx: ParserContext): Expr {
+  const depth = ctx.depth;
+  descend(ctx.peek(), ctx);
+  const cond = parseConditionalOr(ctx);
+  if (!matchesControlToken(ctx.peek(), "?")) {
+    ctx.depth = depth;
+    return cond;
+  }
+  ctx.advance();
+  const then = parseConditionalOr(ctx);
+  if (matchesControlToken(ctx.peek(), ":")) {
+    ctx.advance();
+  } else {
+    report(ctx, [":"]);
+  }
+  const els = parseExpr(ctx);
+  ctx.depth = depth;
+  return new CallExpr(ctx.nextId(), undefined, CONDITIONAL_OPERATOR, [cond, then, els], cond.span.to(els.span));
 }
 
-export class FuncCallExpr {
-  constructor(public readonly member: Member, public readonly exprs: Expr[]) {}
+function parseConditionalOr(ctx: ParserContext): Expr {
+  const operands = [parseConditionalAnd(ctx)];
+  while (matchesOperatorToken(ctx.peek(), "||")) {
+    ctx.advance();
+    operands.push(parseConditionalAnd(ctx));
+  }
+  return newBalancedCall(ctx, "||", operands);
 }
 
-export function parser(tokens: Token[]): Expr {
-  const ret = parseExpr(tokens);
-  if (ret === undefined) {
-    throw new Error("Unexpected end of input");
+function parseConditionalAnd(ctx: ParserContext): Expr {
+  const operands = [parseRelation(ctx)];
+  while (matchesOperatorToken(ctx.peek(), "&&")) {
+    ctx.advance();
+    operands.push(parseRelation(ctx));
   }
-  return ret[0];
+  return newBalancedCall(ctx, "&&", operands);
 }
 
-function matchesControlToken(token: Token, ...controls: string[]): token is ControlToken {
-  return token instanceof ControlToken && controls.includes(token.control);
+function parseRelation(ctx: ParserContext): Expr {
+  const depth = ctx.depth;
+  let expr = parseAddition(ctx);
+  while (matchesOperatorToken(ctx.peek(), "<", "<=", ">=", ">", "==", "!=", "in")) {
+    const operator = ctx.advance() as OperatorToken;
+    descend(operator, ctx);
+    expr = newBinaryCall(ctx, operator.operator, expr, parseAddition(ctx));
+  }
+  ctx.depth = depth;
+  return expr;
 }
 
-function matchesOperatorToken(token: Token, ...operators: string[]): token is OperatorToken {
-  return token instanceof OperatorToken && operators.includes(token.operator);
+function parseAddition(ctx: ParserContext): Expr {
+  const depth = ctx.depth;
+  let expr = parseMultiplication(ctx);
+  while (matchesOperatorToken(ctx.peek(), "+", "-")) {
+    const operator = ctx.advance() as OperatorToken;
+    descend(operator, ctx);
+    expr = newBinaryCall(ctx, operator.operator, expr, parseMultiplication(ctx));
+  }
+  ctx.depth = depth;
+  return expr;
 }
 
-function parseExpr(tokens: Token[]): [OrExpr | TernaryExpr, Token[]] | undefined {
-  let retCond = parseConditionalOr(tokens);
-  if (retCond === undefined) {
-    return undefined;
+function parseMultiplication(ctx: ParserContext): Expr {
+  const depth = ctx.depth;
+  let expr = parseUnary(ctx);
+  while (matchesOperatorToken(ctx.peek(), "*", "/", "%")) {
+    const operator = ctx.advance() as OperatorToken;
+    descend(operator, ctx);
+    expr = newBinaryCall(ctx, operator.operator, expr, parseUnary(ctx));
+  }
+  ctx.depth = depth;
+  return expr;
+}
+
+function parseUnary(ctx: ParserContext): Expr {
+  const depth = ctx.depth;
+  const operators: OperatorToken[] = [];
+  const first = ctx.peek();
+  if (matchesOperatorToken(first, "!", "-")) {
+    while (matchesOperatorToken(ctx.peek(), first.operator)) {
+      descend(ctx.peek(), ctx);
+      operators.push(ctx.advance() as OperatorToken);
+    }
+  }
+  // A minus right before an int or double literal is folded into it like in cel-go, so that -9223372036854775808 fits
+  const literal = ctx.peek();
+  const folded =
+    operators.length > 0 &&
+    operators[operators.length - 1].operator === "-" &&
+    (literal instanceof IntLitToken || literal instanceof FloatLitToken) &&
+    !matchesControlToken(ctx.peek(1), ".", "[");
+  const operand = folded ? parseNegativeLiteral(operators.pop()!, ctx) : parseMember(ctx);
+  // The innermost operator applies first
+  const expr = operators.reduceRight<Expr>(
+    (operand, operator) =>
+      new CallExpr(
+        ctx.nextId(),
+        undefined,
+        UNARY_OPERATORS[operator.operator],
+        [operand],
+        operator.span.to(operand.span)
+      ),
+    operand
+  );
+  ctx.depth = depth;
+  return expr;
+}
+
+function parseNegativeLiteral(minus: OperatorToken, ctx: ParserContext): ConstExpr {
+  const token = ctx.advance() as IntLitToken | FloatLitToken;
+  const span = minus.span.to(token.span);
+  if (token instanceof IntLitToken) {
+    return new ConstExpr(ctx.nextId(), "int", -token.value, span);
   }
-  tokens = retCond[1];
-  if (matchesControlToken(tokens[0], "?")) {
-    tokens = tokens.slice(1);
-    let retThen = parseConditionalOr(tokens);
-    if (retThen === undefined) {
-      return undefined;
+  return new ConstExpr(ctx.nextId(), "double", -token.value, span);
+}
+
+function parseMember(ctx: ParserContext): Expr {
+  const depth = ctx.depth;
+  let member = parsePrimary(ctx);
+  while (
+    matchesControlToken(ctx.peek(), ".", "[") ||
+    (matchesControlToken(ctx.peek(), "{") && isQualifiedName(member))
+  ) {
+    descend(ctx.peek(), ctx);
+    if (matchesControlToken(ctx.peek(), "{")) {
+      const messageName = qualifiedName(member as IdentExpr | SelectExpr);
+      ctx.advance();
+      const fieldInits = parseFieldInits(ctx);
+      const closing = expectClosing(ctx, "}", [",", "}"]);
+      const last = fieldInits.length > 0 ? fieldInits[fieldInits.length - 1] : member;
+      const span = member.span.to((closing ?? last).span);
+      member = new CreateStructExpr(ctx.nextId(), messageName, fieldInits, span);
+      continue;
     }
-    tokens = retThen[1];
-    if (!matchesControlToken(tokens[0], ":")) {
-      return undefined;
+    if (matchesControlToken(ctx.peek(), ".")) {
+      ctx.advance();
+      const optional = matchesControlToken(ctx.peek(), "?") ? ctx.advance() : undefined;
+      const ident = ctx.peek();
+      if (!(ident instanceof IdentToken)) {
+        report(ctx, ["identifier"]);
+        break;
+      }
+      ctx.advance();
+      if (optional !== undefined) {
+        const field = new ConstExpr(ctx.nextId(), "string", ident.ident, ident.span);
+        member = new CallExpr(ctx.nextId(), undefined, OPTIONAL_SELECT, [member, field], member.span.to(ident.span));
+        continue;
+      }
+      if (!matchesControlToken(ctx.peek(), "(")) {
+        member = new SelectExpr(ctx.nextId(), member, ident.ident, false, member.span.to(ident.span));
+        continue;
+      }
+      ctx.advance();
+      const exprList = parseExprList(ctx, ")", false, ctx.options.maxCallArguments, "arguments");
+      const closing = expectClosing(ctx, ")", [",", ")"]);
+      const span = member.span.to((closing ?? exprList[exprList.length - 1] ?? ident).span);
+      member =
+        expandMacro(ctx, member, ident.ident, exprList, span) ??
+        new CallExpr(ctx.nextId(), member, ident.ident, exprList, span);
+      continue;
     }
-    tokens = tokens.slice(1);
-    const retEls = parseExpr(tokens);
-    if (retEls === undefined) {
-      return undefined;
+    if (matchesControlToken(ctx.peek(), "[")) {
+      ctx.advance();
+      const optional = matchesControlToken(ctx.peek(), "?") ? ctx.advance() : undefined;
+      const expr = parseExpr(ctx);
+      const closing = expectClosing(ctx, "]", ["]"]);
+      const span = member.span.to((closing ?? expr).span);
+      const func = optional !== undefined ? OPTIONAL_INDEX : INDEX_OPERATOR;
+      member = new CallExpr(ctx.nextId(), undefined, func, [member, expr], span);
+      continue;
     }
-    tokens = retEls[1];
-    return [new TernaryExpr(retCond[0], retThen[0], retEls[0]), tokens];
   }
-  return [retCond[0], tokens];
+  ctx.depth = depth;
+  return member;
 }
 
-function parseConditionalOr(tokens: Token[]): [OrExpr, Token[]] | undefined {
-  const exprs: AndExpr[] = [];
-  const ret = parseConditionalAnd(tokens);
-  if (ret === undefined) {
-    return undefined;
+function parsePrimary(ctx: ParserContext): Expr {
+  // Already reported by parser(), the token stands in for the operand it was meant to be
+  if (ctx.peek() instanceof ErrorToken) {
+    return newErrorExpr(ctx, ctx.advance().span);
+  }
+  const literal = parseLiteral(ctx);
+  if (literal !== undefined) {
+    return literal;
   }
-  exprs.push(ret[0]);
-  tokens = ret[1];
-  while (matchesOperatorToken(tokens[0], "||")) {
-    tokens = tokens.slice(1);
-    const retExpr = parseConditionalAnd(tokens);
-    if (retExpr === undefined) {
-      return undefined;
+  if (matchesControlToken(ctx.peek(), ".") && !(ctx.peek(1) instanceof IdentToken)) {
+    const dot = ctx.advance();
+    report(ctx, ["identifier"]);
+    return newErrorExpr(ctx, dot.span);
+  }
+  if (ctx.peek() instanceof IdentToken || matchesControlToken(ctx.peek(), ".")) {
+    const dot = matchesControlToken(ctx.peek(), ".") ? ctx.advance() : undefined;
+    const token = ctx.advance() as IdentToken;
+    const name = `${dot !== undefined ? "." : ""}${token.ident}`;
+    const nameSpan = (dot ?? token).span.to(token.span);
+    if (!matchesControlToken(ctx.peek(), "(")) {
+      return new IdentExpr(ctx.nextId(), name, nameSpan);
     }
-    exprs.push(retExpr[0]);
-    tokens = retExpr[1];
+    ctx.advance();
+    const exprList = parseExprList(ctx, ")", false, ctx.options.maxCallArguments, "arguments");
+    const closing = expectClosing(ctx, ")", [",", ")"]);
+    const span = nameSpan.to((closing ?? exprList[exprList.length - 1] ?? token).span);
+    return (
+      expandMacro(ctx, undefined, name, exprList, span) ?? new CallExpr(ctx.nextId(), undefined, name, exprList, span)
+    );
+  }
+  if (matchesControlToken(ctx.peek(), "(")) {
+    ctx.advance();
+    const expr = parseExpr(ctx);
+    expectClosing(ctx, ")", [")"]);
+    return expr;
+  }
+  if (matchesControlToken(ctx.peek(), "[")) {
+    const first = ctx.advance();
+    const optionalIndices: number[] = [];
+    const exprList = parseExprList(ctx, "]", true, ctx.options.maxListElements, "elements", optionalIndices);
+    const closing = expectClosing(ctx, "]", [",", "]"]);
+    const span = first.span.to((closing ?? exprList[exprList.length - 1] ?? first).span);
+    return new CreateListExpr(ctx.nextId(), exprList, optionalIndices, span);
   }
-  return [new OrExpr(exprs), tokens];
+  if (matchesControlToken(ctx.peek(), "{")) {
+    const first = ctx.advance();
+    const mapInits = parseMapInits(ctx);
+    const closing = expectClosing(ctx, "}", [",", "}"]);
+    const last = mapInits.length > 0 ? mapInits[mapInits.length - 1] : first;
+    const span = first.span.to((closing ?? last).span);
+    return new CreateMapExpr(ctx.nextId(), mapInits, span);
+  }
+  return recoverPrimary(ctx);
 }
 
-function parseConditionalAnd(tokens: Token[]): [AndExpr, Token[]] | undefined {
-  const exprs: RelExpr[] = [];
-  const ret = parseRelation(tokens);
-  if (ret === undefined) {
-    return undefined;
+// Builds the nodes of a macro expansion, which all share the span of the macro call and get fresh ids
+export class ExprHelper {
+  constructor(private readonly ctx: ParserContext, public readonly span: Span) {}
+
+  ident(name: string): IdentExpr {
+    return new IdentExpr(this.ctx.nextId(), name, this.span);
   }
-  exprs.push(ret[0]);
-  tokens = ret[1];
-  while (matchesOperatorToken(tokens[0], "&&")) {
-    tokens = tokens.slice(1);
-    const retExpr = parseRelation(tokens);
-    if (retExpr === undefined) {
-      return undefined;
-    }
-    exprs.push(retExpr[0]);
-    tokens = retExpr[1];
+
+  accu(): IdentExpr {
+    return this.ident(ACCUMULATOR_VAR);
+  }
+
+  literal(kind: ConstKind, value: bigint | number | string | boolean | null): ConstExpr {
+    return new ConstExpr(this.ctx.nextId(), kind, value, this.span);
+  }
+
+  list(...elements: Expr[]): CreateListExpr {
+    return new CreateListExpr(this.ctx.nextId(), elements, [], this.span);
+  }
+
+  map(...entries: [Expr, Expr][]): CreateMapExpr {
+    const mapEntries = entries.map(([key, value]) => new MapEntry(this.ctx.nextId(), key, value, false, this.span));
+    return new CreateMapExpr(this.ctx.nextId(), mapEntries, this.span);
+  }
+
+  select(operand: Expr, field: string): SelectExpr {
+    return new SelectExpr(this.ctx.nextId(), operand, field, false, this.span);
+  }
+
+  presenceTest(operand: Expr, field: string): SelectExpr {
+    return new SelectExpr(this.ctx.nextId(), operand, field, true, this.span);
+  }
+
+  call(func: string, ...args: Expr[]): CallExpr {
+    return new CallExpr(this.ctx.nextId(), undefined, func, args, this.span);
+  }
+
+  receiverCall(target: Expr, func: string, ...args: Expr[]): CallExpr {
+    return new CallExpr(this.ctx.nextId(), target, func, args, this.span);
+  }
+
+  fold(
+    iterVar: string,
+    iterRange: Expr,
+    accuInit: Expr,
+    loopCondition: Expr,
+    loopStep: Expr,
+    result: Expr
+  ): ComprehensionExpr {
+    return this.comprehension(
+      iterVar,
+      undefined,
+      iterRange,
+      ACCUMULATOR_VAR,
+      accuInit,
+      loopCondition,
+      loopStep,
+      result
+    );
+  }
+
+  // Binds list indexes or map keys to iterVar and the elements or values to iterVar2
+  fold2(
+    iterVar: string,
+    iterVar2: string,
+    iterRange: Expr,
+    accuInit: Expr,
+    loopCondition: Expr,
+    loopStep: Expr,
+    result: Expr
+  ): ComprehensionExpr {
+    return this.comprehension(iterVar, iterVar2, iterRange, ACCUMULATOR_VAR, accuInit, loopCondition, loopStep, result);
+  }
+
+  comprehension(
+    iterVar: string,
+    iterVar2: string | undefined,
+    iterRange: Expr,
+    accuVar: string,
+    accuInit: Expr,
+    loopCondition: Expr,
+    loopStep: Expr,
+    result: Expr
+  ): ComprehensionExpr {
+    return new ComprehensionExpr(
+      this.ctx.nextId(),
+      iterVar,
+      iterVar2,
+      iterRange,
+      accuVar,
+      accuInit,
+      loopCondition,
+      loopStep,
+      result,
+      this.span
+    );
+  }
+
+  // Reports an invalid argument and stands in for the expansion, the parse then fails with the other errors
+  error(message: string, node: Expr): Expr {
+    addDiagnostic(this.ctx, new Diagnostic(message, node.span, undefined, []));
+    return newErrorExpr(this.ctx, this.span);
   }
-  return [new AndExpr(exprs), tokens];
 }
-function parseRelation(tokens: Token[]): [RelExpr, Token[]] | undefined {
-  const exprs: AddExpr[] = [];
-  const operators: string[] = [];
-  const ret = parseAddition(tokens);
-  if (ret === undefined) {
-    return undefined;
+
+// Receives the arguments as parsed, target is undefined for global macros.
+// Returning undefined leaves the call as it is, like cel-go expanders returning nil
+export type MacroExpander = (helper: ExprHelper, target: Expr | undefined, args: Expr[]) => Expr | undefined;
+
+// A parse-time rewrite of calls matching its name, style and argument count exactly
+export class Macro {
+  constructor(
+    public readonly name: string,
+    public readonly receiverStyle: boolean,
+    public readonly argCount: number,
+    public readonly expander: MacroExpander
+  ) {}
+
+  get key(): string {
+    return macroKey(this.name, this.receiverStyle, this.argCount);
   }
-  exprs.push(ret[0]);
-  tokens = ret[1];
-  if (matchesOperatorToken(tokens[0], "<", "<=", ">=", ">", "==", "!=", "in")) {
-    operators.push(tokens[0].operator);
-    tokens = tokens.slice(1);
-    const ret = parseAddition(tokens);
-    if (ret === undefined) {
-      return undefined;
+}
+
+// Global names keep their leading dot, so a call such as .all(x, p) matches neither global nor receiver macros
+function macroKey(name: string, receiverStyle: boolean, argCount: number): string {
+  return `${receiverStyle ? "receiver" : "global"}:${name}/${argCount}`;
+}
+
+export function globalMacro(name: string, argCount: number, expander: MacroExpander): Macro {
+  return new Macro(name, false, argCount, expander);
+}
+
+export function receiverMacro(name: string, argCount: number, expander: MacroExpander): Macro {
+  return new Macro(name, true, argCount, expander);
+}
+
+// Builds the comprehension over the macro's receiver and iteration variables
+type Fold = (accuInit: Expr, loopCondition: Expr, loopStep: Expr, result: Expr) => ComprehensionExpr;
+
+type ComprehensionExpander = (helper: ExprHelper, fold: Fold, iterVars: string[], args: Expr[]) => Expr;
+
+// Receiver macros whose first arguments name the iteration variables, one or two of them
+function comprehensionMacro(
+  name: string,
+  iterVarCount: number,
+  argCount: number,
+  expander: ComprehensionExpander
+): Macro {
+  return receiverMacro(name, argCount, (helper, target, args) => {
+    const iterVars: string[] = [];
+    for (const arg of args.slice(0, iterVarCount)) {
+      if (!(arg instanceof IdentExpr) || arg.name.startsWith(".")) {
+        return helper.error(`Invalid argument to ${name}() macro`, arg);
+      }
+      if (arg.name === ACCUMULATOR_VAR) {
+        return helper.error(`Iteration variable ${arg.name} in ${name}() macro overwrites the accumulator`, arg);
+      }
+      if (iterVars.includes(arg.name)) {
+        return helper.error(`Duplicate iteration variable ${arg.name} in ${name}() macro`, arg);
+      }
+      iterVars.push(arg.name);
     }
-    exprs.push(ret[0]);
-    tokens = ret[1];
+    const [iterVar, iterVar2] = iterVars;
+    const fold: Fold = (...parts) =>
+      iterVar2 === undefined
+        ? helper.fold(iterVar, target!, ...parts)
+        : helper.fold2(iterVar, iterVar2, target!, ...parts);
+    return expander(helper, fold, iterVars, args.slice(iterVarCount));
+  });
+}
+
+// The two-variable forms follow cel-go's comprehensions v2 extension
+export const STANDARD_MACROS: Macro[] = [
+  globalMacro("has", 1, expandHas),
+  comprehensionMacro("all", 1, 2, expandAll),
+  comprehensionMacro("all", 2, 3, expandAll),
+  comprehensionMacro("exists", 1, 2, expandExists),
+  comprehensionMacro("exists", 2, 3, expandExists),
+  comprehensionMacro("exists_one", 1, 2, expandExistsOne),
+  comprehensionMacro("exists_one", 2, 3, expandExistsOne),
+  comprehensionMacro("existsOne", 2, 3, expandExistsOne),
+  comprehensionMacro("map", 1, 2, expandMap),
+  comprehensionMacro("map", 1, 3, expandMap),
+  comprehensionMacro("filter", 1, 2, expandFilter),
+  comprehensionMacro("transformList", 2, 3, expandMap),
+  comprehensionMacro("transformList", 2, 4, expandMap),
+  comprehensionMacro("transformMap", 2, 3, expandTransformMap),
+  comprehensionMacro("transformMap", 2, 4, expandTransformMap),
+  comprehensionMacro("transformMapEntry", 2, 3, expandTransformMapEntry),
+  comprehensionMacro("transformMapEntry", 2, 4, expandTransformMapEntry),
+  receiverMacro("bind", 3, expandBind),
+  receiverMacro("block", 2, expandBlock),
+  receiverMacro("index", 1, expandIndex),
+];
+
+function expandMacro(
+  ctx: ParserContext,
+  target: Expr | undefined,
+  func: string,
+  args: Expr[],
+  span: Span
+): Expr | undefined {
+  const macro = ctx.macros.get(macroKey(func, target !== undefined, args.length));
+  return macro?.expander(new ExprHelper(ctx, span), target, args);
+}
+
+function expandHas(helper: ExprHelper, _target: Expr | undefined, [arg]: Expr[]): Expr {
+  if (!(arg instanceof SelectExpr) || arg.testOnly) {
+    return helper.error("Invalid argument to has() macro", arg);
   }
-  return [new RelExpr(exprs, operators), tokens];
+  return helper.presenceTest(arg.operand, arg.field);
+}
+
+// The binding macros are called on the cel namespace, calls on anything else are left alone
+function isCelNamespace(target: Expr | undefined): boolean {
+  return target instanceof IdentExpr && target.name === "cel";
 }
 
-function parseAddition(tokens: Token[]): [AddExpr, Token[]] | undefined {
-  const exprs: MultExpr[] = [];
-  const operators: string[] = [];
-  const ret = parseMultiplication(tokens);
-  if (ret === undefined) {
+// cel.bind(x, init, body) becomes a comprehension over no elements that leaves init in x for body, like cel-go.
+// The interpreter evaluates init only when body reads x
+function expandBind(helper: ExprHelper, target: Expr | undefined, [name, init, body]: Expr[]): Expr | undefined {
+  if (!isCelNamespace(target)) {
     return undefined;
   }
-  exprs.push(ret[0]);
-  tokens = ret[1];
-  while (matchesOperatorToken(tokens[0], "+", "-")) {
-    operators.push(tokens[0].operator);
-    tokens = tokens.slice(1);
-    const ret = parseMultiplication(tokens);
-    if (ret === undefined) {
-      return undefined;
-    }
-    exprs.push(ret[0]);
-    tokens = ret[1];
+  if (!(name instanceof IdentExpr) || name.name.startsWith(".")) {
+    return helper.error("Invalid argument to cel.bind() macro", name);
   }
-  return [new AddExpr(exprs, operators), tokens];
+  return helper.comprehension(
+    UNUSED_ITER_VAR,
+    undefined,
+    helper.list(),
+    name.name,
+    init,
+    helper.literal("bool", false),
+    helper.ident(name.name),
+    body
+  );
 }
 
-function parseMultiplication(tokens: Token[]): [MultExpr, Token[]] | undefined {
-  const exprs: UnaryExpr[] = [];
-  const operators: string[] = [];
-  const ret = parseUnary(tokens);
-  if (ret === undefined) {
+// cel.block([e0, e1], body) binds the elements to cel.index(0) and cel.index(1), each seeing the ones before it
+function expandBlock(helper: ExprHelper, target: Expr | undefined, [bindings, body]: Expr[]): Expr | undefined {
+  if (!isCelNamespace(target)) {
     return undefined;
   }
-  exprs.push(ret[0]);
-  tokens = ret[1];
-  while (matchesOperatorToken(tokens[0], "*", "/", "%")) {
-    operators.push(tokens[0].operator);
-    tokens = tokens.slice(1);
-    const ret = parseUnary(tokens);
-    if (ret === undefined) {
-      return undefined;
-    }
-    exprs.push(ret[0]);
-    tokens = ret[1];
+  if (!(bindings instanceof CreateListExpr)) {
+    return helper.error("Invalid argument to cel.block() macro, expected a list literal", bindings);
   }
-  return [new MultExpr(exprs, operators), tokens];
+  return helper.call(BLOCK_FUNCTION, bindings, body);
 }
 
-function parseUnary(tokens: Token[]): [UnaryExpr, Token[]] | undefined {
-  const operators: string[] = [];
-  if (matchesOperatorToken(tokens[0], "!", "-")) {
-    const firstOperator = tokens[0];
-    while (matchesOperatorToken(tokens[0], firstOperator.operator)) {
-      operators.push(tokens[0].operator);
-      tokens = tokens.slice(1);
-    }
-  }
-  const ret = parseMember(tokens);
-  if (ret === undefined) {
+function expandIndex(helper: ExprHelper, target: Expr | undefined, [index]: Expr[]): Expr | undefined {
+  if (!isCelNamespace(target)) {
     return undefined;
   }
-  const unary = ret[0];
-  tokens = ret[1];
-  return [new UnaryExpr(unary, operators), tokens];
+  if (!(index instanceof ConstExpr && index.kind === "int" && (index.value as bigint) >= 0n)) {
+    return helper.error("Invalid argument to cel.index() macro, expected a non-negative int literal", index);
+  }
+  return helper.ident(`${BLOCK_INDEX_PREFIX}${index.value}`);
 }
 
-function newMemberExpr(member: Member): Expr {
-  // TODO: Find a better way to handle method call syntax
-  const addExpr = new AddExpr([new MultExpr([new UnaryExpr(member, [])], [])], []);
-  const orExpr = new OrExpr([new AndExpr([new RelExpr([addExpr], [])])]);
-  return orExpr;
+// Stops at the first false, a false predicate wins over errors from the others
+function expandAll(helper: ExprHelper, fold: Fold, _iterVars: string[], [predicate]: Expr[]): Expr {
+  return fold(
+    helper.literal("bool", true),
+    helper.call(NOT_STRICTLY_FALSE, helper.accu()),
+    helper.call(BINARY_OPERATORS["&&"], helper.accu(), predicate),
+    helper.accu()
+  );
 }
 
-// TODO: Rewrite according to the new grammar
-function parseMember(tokens: Token[]): [Member, Token[]] | undefined {
-  const retPrimary = parsePrimary(tokens);
-  if (retPrimary === undefined) {
-    return undefined;
-  }
-  let member: Member = retPrimary[0];
-  tokens = retPrimary[1];
-  while (matchesControlToken(tokens[0], ".", "[")) {
-    if (matchesControlToken(tokens[0], ".")) {
-      tokens = tokens.slice(1);
-      if (!(tokens[0] instanceof IdentToken)) {
-        return undefined;
-      }
-      const ident = tokens[0].ident;
-      tokens = tokens.slice(1);
-      if (!matchesControlToken(tokens[0], "(")) {
-        return undefined;
-      }
-      tokens = tokens.slice(1);
-      const retExprList = parseExprList(tokens);
-      if (retExprList === undefined) {
-        return undefined;
-      }
-      const exprList = retExprList[0];
-      tokens = retExprList[1];
-      if (!matchesControlToken(tokens[0], ")")) {
-        return undefined;
-      }
-      tokens = tokens.slice(1);
-      member = new FuncCallExpr(new Ident(ident), [newMemberExpr(member), ...exprList]);
-      continue;
-    }
-    if (matchesControlToken(tokens[0], "[")) {
-      tokens = tokens.slice(1);
-      const retExpr = parseExpr(tokens);
-      if (retExpr === undefined) {
-        return undefined;
-      }
-      const expr = retExpr[0];
-      tokens = retExpr[1];
-      if (!matchesControlToken(tokens[0], "]")) {
-        return undefined;
-      }
-      tokens = tokens.slice(1);
-      member = new IndexExpr(member, expr);
-      continue;
-    }
-  }
-  return [member, tokens];
+// Stops at the first true, a true predicate wins over errors from the others
+function expandExists(helper: ExprHelper, fold: Fold, _iterVars: string[], [predicate]: Expr[]): Expr {
+  return fold(
+    helper.literal("bool", false),
+    helper.call(NOT_STRICTLY_FALSE, helper.call(UNARY_OPERATORS["!"], helper.accu())),
+    helper.call(BINARY_OPERATORS["||"], helper.accu(), predicate),
+    helper.accu()
+  );
 }
 
-// TODO: Rewrite according to the new grammar
-function parsePrimary(tokens: Token[]): [Primary, Token[]] | undefined {
-  const retLiteral = parseLiteral(tokens);
-  if (retLiteral !== undefined) {
-    return retLiteral;
+function expandExistsOne(helper: ExprHelper, fold: Fold, _iterVars: string[], [predicate]: Expr[]): Expr {
+  return fold(
+    helper.literal("int", 0n),
+    helper.literal("bool", true),
+    helper.call(
+      CONDITIONAL_OPERATOR,
+      predicate,
+      helper.call(BINARY_OPERATORS["+"], helper.accu(), helper.literal("int", 1n)),
+      helper.accu()
+    ),
+    helper.call(BINARY_OPERATORS["=="], helper.accu(), helper.literal("int", 1n))
+  );
+}
+
+// map(x, t) transforms every element, map(x, p, t) only those matching p, and likewise for transformList()
+function expandMap(helper: ExprHelper, fold: Fold, _iterVars: string[], args: Expr[]): Expr {
+  const append = helper.call(BINARY_OPERATORS["+"], helper.accu(), helper.list(args[args.length - 1]));
+  return fold(helper.list(), helper.literal("bool", true), filteredStep(helper, args, append), helper.accu());
+}
+
+function expandFilter(helper: ExprHelper, fold: Fold, [iterVar]: string[], [predicate]: Expr[]): Expr {
+  const append = helper.call(BINARY_OPERATORS["+"], helper.accu(), helper.list(helper.ident(iterVar)));
+  return fold(
+    helper.list(),
+    helper.literal("bool", true),
+    helper.call(CONDITIONAL_OPERATOR, predicate, append, helper.accu()),
+    helper.accu()
+  );
+}
+
+// Keeps the keys and transforms the values, lists become maps from index to value
+function expandTransformMap(helper: ExprHelper, fold: Fold, [key]: string[], args: Expr[]): Expr {
+  const insert = helper.call(MAP_INSERT, helper.accu(), helper.ident(key), args[args.length - 1]);
+  return fold(helper.map(), helper.literal("bool", true), filteredStep(helper, args, insert), helper.accu());
+}
+
+// The transform returns a map of entries to add, which must not repeat earlier keys
+function expandTransformMapEntry(helper: ExprHelper, fold: Fold, _iterVars: string[], args: Expr[]): Expr {
+  const insert = helper.call(MAP_INSERT, helper.accu(), args[args.length - 1]);
+  return fold(helper.map(), helper.literal("bool", true), filteredStep(helper, args, insert), helper.accu());
+}
+
+// Takes the step only for elements matching the predicate, which comes before the transform if there is one
+function filteredStep(helper: ExprHelper, args: Expr[], step: Expr): Expr {
+  return args.length === 2 ? helper.call(CONDITIONAL_OPERATOR, args[0], step, helper.accu()) : step;
+}
+
+// Skips tokens that cannot start an expression, stopping at delimiters the caller can resume from
+function recoverPrimary(ctx: ParserContext): Expr {
+  report(ctx, EXPR_START);
+  const first = ctx.peek();
+  while (!(isSyncToken(ctx.peek()) || startsExpr(ctx.peek()))) {
+    ctx.advance();
   }
-  if (tokens[0] instanceof IdentToken) {
-    const ident = tokens[0].ident;
-    tokens = tokens.slice(1);
-    if (!matchesControlToken(tokens[0], "(")) {
-      return [new Ident(ident), tokens];
-    }
-    tokens = tokens.slice(1);
-    const retExprList = parseExprList(tokens);
-    if (retExprList === undefined) {
-      return undefined;
-    }
-    const exprList = retExprList[0];
-    tokens = retExprList[1];
-    if (!matchesControlToken(tokens[0], ")")) {
-      return undefined;
-    }
-    tokens = tokens.slice(1);
-    return [new FuncCallExpr(new Ident(ident), exprList), tokens];
-  }
-  if (matchesControlToken(tokens[0], "(")) {
-    tokens = tokens.slice(1);
-    const retExpr = parseExpr(tokens);
-    if (retExpr === undefined) {
-      return undefined;
-    }
-    const expr = retExpr[0];
-    tokens = retExpr[1];
-    if (!matchesControlToken(tokens[0], ")")) {
-      return undefined;
-    }
-    tokens = tokens.slice(1);
-    return [expr, tokens];
-  }
-  if (matchesControlToken(tokens[0], "[")) {
-    tokens = tokens.slice(1);
-    const retExprList = parseExprList(tokens);
-    if (retExprList === undefined) {
-      return undefined;
-    }
-    const exprList = retExprList[0];
-    tokens = retExprList[1];
-    if (matchesControlToken(tokens[0], ",")) {
-      tokens = tokens.slice(1);
-    }
-    if (!matchesControlToken(tokens[0], "]")) {
-      return undefined;
-    }
-    tokens = tokens.slice(1);
-    return [new ListExpr(exprList), tokens];
-  }
-  if (matchesControlToken(tokens[0], "{")) {
-    tokens = tokens.slice(1);
-    const retMapInits = parseMapInits(tokens);
-    if (retMapInits === undefined) {
-      return undefined;
-    }
-    const mapInits = retMapInits[0];
-    tokens = retMapInits[1];
-    if (matchesControlToken(tokens[0], ",")) {
-      tokens = tokens.slice(1);
-    }
-    if (!matchesControlToken(tokens[0], "}")) {
-      return undefined;
-    }
-    tokens = tokens.slice(1);
-    return [new MapExpr(mapInits), tokens];
+  if (ctx.peek() !== first && startsExpr(ctx.peek())) {
+    return parseUnary(ctx);
   }
-  return undefined;
+  return newErrorExpr(ctx, first.span);
 }
 
-function parseLiteral(tokens: Token[]): [Literal, Token[]] | undefined {
-  if (tokens[0] instanceof IntLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new IntLit(value), tokens];
+function parseLiteral(ctx: ParserContext): ConstExpr | undefined {
+  const token = ctx.peek();
+  if (!isLiteralToken(token)) {
+    return undefined;
   }
-  if (tokens[0] instanceof UintLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new UintLit(value), tokens];
+  ctx.advance();
+  if (token instanceof IntLitToken) {
+    // Only a negated literal can be 2^63
+    if (token.value > MAX_INT64) {
+      addDiagnostic(ctx, new Diagnostic("Integer literal out of range", token.span, undefined, []));
+    }
+    return new ConstExpr(ctx.nextId(), "int", token.value, token.span);
   }
-  if (tokens[0] instanceof FloatLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new FloatLit(value), tokens];
+  if (token instanceof UintLitToken) {
+    return new ConstExpr(ctx.nextId(), "uint", token.value, token.span);
   }
-  if (tokens[0] instanceof StringLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new StringLit(value), tokens];
+  if (token instanceof FloatLitToken) {
+    return new ConstExpr(ctx.nextId(), "double", token.value, token.span);
   }
-  if (tokens[0] instanceof ByteLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new ByteLit(value), tokens];
+  if (token instanceof StringLitToken) {
+    return new ConstExpr(ctx.nextId(), "string", token.value, token.span);
   }
-  if (tokens[0] instanceof BoolLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new BoolLit(value), tokens];
+  if (token instanceof ByteLitToken) {
+    return new ConstExpr(ctx.nextId(), "bytes", token.value, token.span);
   }
-  if (tokens[0] instanceof NullLitToken) {
-    const value = tokens[0].value;
-    tokens = tokens.slice(1);
-    return [new NullLit(value), tokens];
+  if (token instanceof BoolLitToken) {
+    return new ConstExpr(ctx.nextId(), "bool", token.value, token.span);
   }
-  return undefined;
+  return new ConstExpr(ctx.nextId(), "null", null, token.span);
 }
 
-function parseExprList(tokens: Token[]): [Expr[], Token[]] | undefined {
+// Collects the indexes of elements marked with "?" into optionalIndices, if it is given
+function parseExprList(
+  ctx: ParserContext,
+  closing: string,
+  trailingComma: boolean,
+  maxItems: number,
+  items: string,
+  optionalIndices?: number[]
+): Expr[] {
   const exprs: Expr[] = [];
+  if (matchesControlToken(ctx.peek(), closing)) {
+    return exprs;
+  }
   while (true) {
-    const ret = parseExpr(tokens);
-    if (ret === undefined) {
-      return undefined;
+    if (optionalIndices !== undefined && matchesControlToken(ctx.peek(), "?")) {
+      ctx.advance();
+      optionalIndices.push(exprs.length);
     }
-    const expr = ret[0];
-    tokens = ret[1];
+    const expr = parseExpr(ctx);
     exprs.push(expr);
-    if (!matchesControlToken(tokens[0], ",")) {
+    if (exprs.length > maxItems) {
+      fail(ctx, `Expression exceeds the maximum of ${maxItems} ${items}`, expr.span);
+    }
+    if (!matchesControlToken(ctx.peek(), ",")) {
+      break;
+    }
+    ctx.advance();
+    if (trailingComma && matchesControlToken(ctx.peek(), closing)) {
       break;
     }
-    tokens = tokens.slice(1);
   }
-  return [exprs, tokens];
+  return exprs;
 }
 
-function parseMapInits(tokens: Token[]): [[Expr, Expr][], Token[]] | undefined {
-  const mapInits: [Expr, Expr][] = [];
+function parseFieldInits(ctx: ParserContext): StructField[] {
+  const fieldInits: StructField[] = [];
+  if (matchesControlToken(ctx.peek(), "}")) {
+    return fieldInits;
+  }
   while (true) {
-    const retKey = parseExpr(tokens);
-    if (retKey === undefined) {
-      return undefined;
+    const optional = matchesControlToken(ctx.peek(), "?") ? ctx.advance() : undefined;
+    const field = ctx.peek();
+    if (!(field instanceof IdentToken)) {
+      report(ctx, ["identifier"]);
+      break;
     }
-    const key = retKey[0];
-    tokens = retKey[1];
-    if (!matchesControlToken(tokens[0], ":")) {
-      return undefined;
+    ctx.advance();
+    if (matchesControlToken(ctx.peek(), ":")) {
+      ctx.advance();
+    } else {
+      report(ctx, [":"]);
     }
-    tokens = tokens.slice(1);
-    const retValue = parseExpr(tokens);
-    if (retValue === undefined) {
-      return undefined;
+    const value = parseExpr(ctx);
+    const span = (optional ?? field).span.to(value.span);
+    fieldInits.push(new StructField(ctx.nextId(), field.ident, value, optional !== undefined, span));
+    if (fieldInits.length > ctx.options.maxMapEntries) {
+      fail(ctx, `Expression exceeds the maximum of ${ctx.options.maxMapEntries} entries`, field.span);
     }
-    const value = retValue[0];
-    tokens = retValue[1];
-    mapInits.push([key, value]);
-    if (!matchesControlToken(tokens[0], ",")) {
+    if (!matchesControlToken(ctx.peek(), ",")) {
+      break;
+    }
+    ctx.advance();
+    if (matchesControlToken(ctx.peek(), "}")) {
       break;
     }
-    tokens = tokens.slice(1);
   }
-  return [mapInits, tokens];
+  return fieldInits;
+}
+
+function parseMapInits(ctx: ParserContext): MapEntry[] {
+  const mapInits: MapEntry[] = [];
+  if (matchesControlToken(ctx.peek(), "}")) {
+    return mapInits;
+  }
+  while (true) {
+    const optional = matchesControlToken(ctx.peek(), "?") ? ctx.advance() : undefined;
+    const key = parseExpr(ctx);
+    if (matchesControlToken(ctx.peek(), ":")) {
+      ctx.advance();
+    } else {
+      report(ctx, [":"]);
+    }
+    const value = parseExpr(ctx);
+    const span = (optional ?? key).span.to(value.span);
+    mapInits.push(new MapEntry(ctx.nextId(), key, value, optional !== undefined, span));
+    if (mapInits.length > ctx.options.maxMapEntries) {
+      fail(ctx, `Expression exceeds the maximum of ${ctx.options.maxMapEntries} entries`, key.span);
+    }
+    if (!matchesControlToken(ctx.peek(), ",")) {
+      break;
+    }
+    ctx.advance();
+    if (matchesControlToken(ctx.peek(), "}")) {
+      break;
+    }
+  }
+  return mapInits;
 }
 
 function testParser() {
@@ -541,6 +1063,35 @@ function testParser() {
   const lexed = lexer(input);
   const parsed = parser(lexed);
   console.log(parsed);
+
+  // Error paths, each should print the kind of the root node or the first diagnostic rather than crash
+  const cases = [
+    // Leading-dot calls are global functions, not macros
+    `.all(x, x > 0)`,
+    `[1].map(x, .exists(y, y))`,
+    // Macro iteration variables must be simple names
+    `[1].all(x.y, true)`,
+    // Malformed input of any size gives at most 100 diagnostics with short snippets
+    `"abc\\q" + 1 == (2`,
+    "1 ".repeat(20000),
+    "[" + ",".repeat(40000) + "]",
+    // Oversized input fails with a single diagnostic, and the lexer stops at the same limit
+    "(".repeat(1000000),
+  ];
+  for (const input of cases) {
+    const shown = input.length > 40 ? `${input.slice(0, 40)}...` : input;
+    try {
+      console.log(`${shown} -> ${parser(lexer(input)).constructor.name}`);
+    } catch (e) {
+      console.log(
+        `${shown} -> ${
+          e instanceof ParseError ? `${e.diagnostics.length} diagnostics, first: ${e.diagnostics[0].message}` : e
+        }`
+      );
+    }
+  }
 }
 
-testParser();
+if (require.main === module) {
+  testParser();
+}
@@ -0,0 +1,781 @@
+/*
+Protobuf message types from a FileDescriptorSet, and values to and from the wire format
+https://github.com/protocolbuffers/protobuf/blob/main/src/google/protobuf/descriptor.proto
+https://protobuf.dev/programming-guides/encoding/
+https://github.com/google/cel-spec/blob/master/doc/langdef.md#protocol-buffer-data-conversion
+*/
+
+/*
+NOTE:
+* Reading descriptors straight from the wire, since the descriptor of descriptor.proto is not at hand
+* Reading varints as two 32-bit halves like protobuf.js, and combining them into the bigints of int and uint values
+* Mapping int32, int64, sint and sfixed fields to int, uint32, uint64 and fixed fields to uint, and enums to int
+* Leaving well-known types such as google.protobuf.Timestamp as plain messages, and groups unsupported
+* Skipping unknown fields when decoding, a repeated non-repeated field keeps its last value instead of being merged
+* Encoding the fields that are set, including zero values, so that set fields survive a round trip
+*/
+import { readFileSync } from "fs";
+import {
+  BoolValue,
+  ByteValue,
+  FloatValue,
+  IntValue,
+  ListValue,
+  MapValue,
+  StringValue,
+  StructValue,
+  UintValue,
+  Value,
+} from "./interpreter";
+import {
+  BOOL_TYPE,
+  BYTES_TYPE,
+  DOUBLE_TYPE,
+  INT_TYPE,
+  ListType,
+  MapType,
+  MessageType,
+  STRING_TYPE,
+  Type,
+  TypeProvider,
+  UINT_TYPE,
+} from "./types";
+
+// Field types by their number in FieldDescriptorProto.Type
+const FIELD_KINDS = [
+  undefined,
+  "double",
+  "float",
+  "int64",
+  "uint64",
+  "int32",
+  "fixed64",
+  "fixed32",
+  "bool",
+  "string",
+  "group",
+  "message",
+  "bytes",
+  "uint32",
+  "enum",
+  "sfixed32",
+  "sfixed64",
+  "sint32",
+  "sint64",
+] as const;
+
+export type FieldKind = Exclude<(typeof FIELD_KINDS)[number], undefined>;
+
+const VARINT = 0;
+const I64 = 1;
+const LEN = 2;
+const I32 = 5;
+
+const LABEL_REPEATED = 3;
+
+export class FieldDescriptor {
+  constructor(
+    public readonly name: string,
+    public readonly number: number,
+    public readonly kind: FieldKind,
+    // Fully qualified name of the message or enum type, without the leading dot
+    public readonly typeName: string | undefined,
+    public readonly repeated: boolean,
+    public readonly packed: boolean
+  ) {}
+}
+
+// Map fields are repeated fields of a map entry message, with the key as field 1 and the value as field 2
+export class MessageDescriptor {
+  constructor(
+    public readonly fullName: string,
+    public readonly fields: FieldDescriptor[],
+    public readonly mapEntry: boolean
+  ) {}
+
+  field(name: string): FieldDescriptor | undefined {
+    return this.fields.find((field) => field.name === name);
+  }
+}
+
+export class EnumDescriptor {
+  constructor(public readonly fullName: string, public readonly values: Record<string, number>) {}
+}
+
+export class ProtoTypeProvider implements TypeProvider {
+  constructor(
+    public readonly messages: Record<string, MessageDescriptor>,
+    public readonly enums: Record<string, EnumDescriptor>
+  ) {}
+
+  findType(typeName: string): MessageType | undefined {
+    const message = own(this.messages, typeName);
+    return message !== undefined && !message.mapEntry ? new MessageType(typeName) : undefined;
+  }
+
+  findFieldNames(typeName: string): string[] | undefined {
+    return own(this.messages, typeName)?.fields.map((field) => field.name);
+  }
+
+  findFieldType(typeName: string, fieldName: string): Type | undefined {
+    const field = own(this.messages, typeName)?.field(fieldName);
+    return field !== undefined ? this.fieldType(field) : undefined;
+  }
+
+  findEnumValue(enumValueName: string): number | undefined {
+    const dot = enumValueName.lastIndexOf(".");
+    const enumType = dot !== -1 ? own(this.enums, enumValueName.slice(0, dot)) : undefined;
+    return enumType !== undefined ? own(enumType.values, enumValueName.slice(dot + 1)) : undefined;
+  }
+
+  fieldType(field: FieldDescriptor): Type {
+    const entry = this.mapEntry(field);
+    if (entry !== undefined) {
+      const [key, value] = entry.fields;
+      return new MapType(this.fieldType(key), this.fieldType(value));
+    }
+    const type = this.scalarType(field);
+    return field.repeated ? new ListType(type) : type;
+  }
+
+  // The entry message of a map field, undefined for other fields
+  mapEntry(field: FieldDescriptor): MessageDescriptor | undefined {
+    const message = field.kind === "message" ? own(this.messages, field.typeName!) : undefined;
+    return message?.mapEntry ? message : undefined;
+  }
+
+  private scalarType(field: FieldDescriptor): Type {
+    switch (field.kind) {
+      case "double":
+      case "float":
+        return DOUBLE_TYPE;
+      case "int32":
+      case "int64":
+      case "sint32":
+      case "sint64":
+      case "sfixed32":
+      case "sfixed64":
+      case "enum":
+        return INT_TYPE;
+      case "uint32":
+      case "uint64":
+      case "fixed32":
+      case "fixed64":
+        return UINT_TYPE;
+      case "bool":
+        return BOOL_TYPE;
+      case "string":
+        return STRING_TYPE;
+      case "bytes":
+        return BYTES_TYPE;
+      case "message":
+      case "group":
+        return new MessageType(field.typeName!);
+    }
+  }
+}
+
+class WireReader {
+  public pos = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  // Field number and wire type
+  tag(): [number, number] {
+    const [tag] = this.varint();
+    return [tag >>> 3, tag & 7];
+  }
+
+  // Low and high 32 bits, unsigned
+  varint(): [number, number] {
+    let lo = 0;
+    let hi = 0;
+    for (let shift = 0; shift < 64; shift += 7) {
+      const byte = this.byte();
+      const bits = byte & 0x7f;
+      if (shift < 28) {
+        lo |= bits << shift;
+      } else if (shift === 28) {
+        lo |= bits << 28;
+        hi |= bits >>> 4;
+      } else {
+        hi |= bits << (shift - 32);
+      }
+      if (byte < 0x80) {
+        return [lo >>> 0, hi >>> 0];
+      }
+    }
+    throw new Error("Malformed varint");
+  }
+
+  fixed32(): number {
+    this.need(4);
+    const value = this.view.getUint32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  fixed64(): [number, number] {
+    return [this.fixed32(), this.fixed32()];
+  }
+
+  float(): number {
+    this.need(4);
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  double(): number {
+    this.need(8);
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  lengthDelimited(): Uint8Array {
+    const [length] = this.varint();
+    this.need(length);
+    const bytes = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  skip(wireType: number) {
+    switch (wireType) {
+      case VARINT:
+        this.varint();
+        return;
+      case I64:
+        this.need(8);
+        this.pos += 8;
+        return;
+      case LEN:
+        this.lengthDelimited();
+        return;
+      case I32:
+        this.need(4);
+        this.pos += 4;
+        return;
+    }
+    throw new Error(`Unsupported wire type ${wireType}`);
+  }
+
+  private byte(): number {
+    this.need(1);
+    return this.bytes[this.pos++];
+  }
+
+  private need(length: number) {
+    if (this.pos + length > this.bytes.length) {
+      throw new Error("Truncated message");
+    }
+  }
+}
+
+class WireWriter {
+  private readonly bytes: number[] = [];
+
+  tag(fieldNumber: number, wireType: number) {
+    // Multiplied rather than shifted, field numbers up to 2^29 - 1 would overflow a signed 32-bit shift
+    this.varint(fieldNumber * 8 + wireType);
+  }
+
+  varint(lo: number, hi = 0) {
+    while (hi > 0 || lo > 0x7f) {
+      this.bytes.push((lo & 0x7f) | 0x80);
+      lo = ((lo >>> 7) | (hi << 25)) >>> 0;
+      hi = hi >>> 7;
+    }
+    this.bytes.push(lo);
+  }
+
+  fixed32(value: number) {
+    this.bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+  }
+
+  fixed64(lo: number, hi: number) {
+    this.fixed32(lo);
+    this.fixed32(hi);
+  }
+
+  float(value: number) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    this.fixed32(view.getUint32(0, true));
+  }
+
+  double(value: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    this.fixed64(view.getUint32(0, true), view.getUint32(4, true));
+  }
+
+  lengthDelimited(bytes: Uint8Array) {
+    this.varint(bytes.length);
+    for (let i = 0; i < bytes.length; i++) {
+      this.bytes.push(bytes[i]);
+    }
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+function toUnsigned(lo: number, hi: number): bigint {
+  return (BigInt(hi) << 32n) | BigInt(lo);
+}
+
+function toSigned(lo: number, hi: number): bigint {
+  return BigInt.asIntN(64, toUnsigned(lo, hi));
+}
+
+// Two's complement halves of an integer, the inverse of toSigned() and toUnsigned()
+function split(value: bigint): [number, number] {
+  const bits = BigInt.asUintN(64, value);
+  return [Number(bits & 0xffffffffn), Number(bits >> 32n)];
+}
+
+function zigZagDecode(lo: number, hi: number): [number, number] {
+  const mask = -(lo & 1);
+  return [(((lo >>> 1) | (hi << 31)) ^ mask) >>> 0, ((hi >>> 1) ^ mask) >>> 0];
+}
+
+function zigZagEncode(lo: number, hi: number): [number, number] {
+  const mask = hi >> 31;
+  return [((lo << 1) ^ mask) >>> 0, (((hi << 1) | (lo >>> 31)) ^ mask) >>> 0];
+}
+
+// Bytes values hold one character per byte, like bytes literals
+function bytesToString(bytes: Uint8Array): string {
+  let string = "";
+  for (let i = 0; i < bytes.length; i++) {
+    string += String.fromCharCode(bytes[i]);
+  }
+  return string;
+}
+
+function stringToBytes(string: string): Uint8Array {
+  const bytes = new Uint8Array(string.length);
+  for (let i = 0; i < string.length; i++) {
+    bytes[i] = string.charCodeAt(i);
+  }
+  return bytes;
+}
+
+const UTF8_DECODER = new TextDecoder();
+const UTF8_ENCODER = new TextEncoder();
+
+export function readDescriptorSet(path: string): ProtoTypeProvider {
+  return descriptorSetTypes(new Uint8Array(readFileSync(path)));
+}
+
+// Registers the messages and enums of every file in a serialized google.protobuf.FileDescriptorSet
+export function descriptorSetTypes(bytes: Uint8Array): ProtoTypeProvider {
+  const messages: Record<string, MessageDescriptor> = {};
+  const enums: Record<string, EnumDescriptor> = {};
+  for (const file of fieldsOf(bytes, 1)) {
+    const packageName = stringOf(file, 2) ?? "";
+    const proto3 = stringOf(file, 12) === "proto3";
+    for (const message of fieldsOf(file, 4)) {
+      readMessageDescriptor(message, packageName, proto3, messages, enums);
+    }
+    for (const enumType of fieldsOf(file, 5)) {
+      readEnumDescriptor(enumType, packageName, enums);
+    }
+  }
+  return new ProtoTypeProvider(messages, enums);
+}
+
+// Reads a DescriptorProto and its nested types
+function readMessageDescriptor(
+  bytes: Uint8Array,
+  scope: string,
+  proto3: boolean,
+  messages: Record<string, MessageDescriptor>,
+  enums: Record<string, EnumDescriptor>
+) {
+  const fullName = qualify(scope, stringOf(bytes, 1)!);
+  const fields = fieldsOf(bytes, 2).map((field) => {
+    const kind = FIELD_KINDS[varintOf(field, 5) ?? 0];
+    if (kind === undefined) {
+      throw new Error(`Unknown field type in ${fullName}`);
+    }
+    const repeated = varintOf(field, 4) === LABEL_REPEATED;
+    const packedOption = fieldsOf(field, 8)
+      .map((options) => varintOf(options, 2))
+      .pop();
+    const packable = !["string", "bytes", "message", "group"].includes(kind);
+    return new FieldDescriptor(
+      stringOf(field, 1)!,
+      varintOf(field, 3)!,
+      kind,
+      stringOf(field, 6)?.replace(/^\./, ""),
+      repeated,
+      repeated && packable && (packedOption !== undefined ? packedOption !== 0 : proto3)
+    );
+  });
+  const mapEntry = fieldsOf(bytes, 7).some((options) => varintOf(options, 7) === 1);
+  messages[fullName] = new MessageDescriptor(fullName, fields, mapEntry);
+  for (const nested of fieldsOf(bytes, 3)) {
+    readMessageDescriptor(nested, fullName, proto3, messages, enums);
+  }
+  for (const enumType of fieldsOf(bytes, 4)) {
+    readEnumDescriptor(enumType, fullName, enums);
+  }
+}
+
+function readEnumDescriptor(bytes: Uint8Array, scope: string, enums: Record<string, EnumDescriptor>) {
+  const fullName = qualify(scope, stringOf(bytes, 1)!);
+  const values: Record<string, number> = {};
+  for (const value of fieldsOf(bytes, 2)) {
+    values[stringOf(value, 1)!] = varintOf(value, 2) ?? 0;
+  }
+  enums[fullName] = new EnumDescriptor(fullName, values);
+}
+
+// Looks up own properties only, so that names such as toString do not find the methods of Object.prototype
+function own<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+function qualify(scope: string, name: string): string {
+  return scope === "" ? name : `${scope}.${name}`;
+}
+
+// The length-delimited values of a field in a descriptor, in wire order
+function fieldsOf(bytes: Uint8Array, fieldNumber: number): Uint8Array[] {
+  const values: Uint8Array[] = [];
+  const reader = new WireReader(bytes);
+  while (!reader.done) {
+    const [number, wireType] = reader.tag();
+    if (number === fieldNumber && wireType === LEN) {
+      values.push(reader.lengthDelimited());
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return values;
+}
+
+function stringOf(bytes: Uint8Array, fieldNumber: number): string | undefined {
+  const values = fieldsOf(bytes, fieldNumber);
+  return values.length > 0 ? UTF8_DECODER.decode(values[values.length - 1]) : undefined;
+}
+
+function varintOf(bytes: Uint8Array, fieldNumber: number): number | undefined {
+  let value: number | undefined;
+  const reader = new WireReader(bytes);
+  while (!reader.done) {
+    const [number, wireType] = reader.tag();
+    if (number === fieldNumber && wireType === VARINT) {
+      value = Number(toSigned(...reader.varint()));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return value;
+}
+
+export function decodeMessage(bytes: Uint8Array, typeName: string, types: ProtoTypeProvider): StructValue {
+  const message = own(types.messages, typeName);
+  if (message === undefined) {
+    throw new Error(`Unknown message type ${typeName}`);
+  }
+  const fields: Record<string, Value> = {};
+  const lists = new Map<string, Value[]>();
+  const maps = new Map<string, [Value, Value][]>();
+  const reader = new WireReader(bytes);
+  while (!reader.done) {
+    const [number, wireType] = reader.tag();
+    const field = message.fields.find((field) => field.number === number);
+    if (field === undefined) {
+      reader.skip(wireType);
+      continue;
+    }
+    const entry = types.mapEntry(field);
+    if (entry !== undefined) {
+      const entries = maps.get(field.name) ?? [];
+      maps.set(field.name, entries);
+      const decoded = decodeMessage(expectLengthDelimited(reader, wireType, field), entry.fullName, types);
+      const [key, value] = entry.fields.map((entryField) => decoded.value[entryField.name] ?? zeroValue(entryField));
+      const index = entries.findIndex(([existing]) => existing.value === key.value);
+      entries.splice(index >= 0 ? index : entries.length, 1, [key, value]);
+    } else if (field.repeated) {
+      const list = lists.get(field.name) ?? [];
+      lists.set(field.name, list);
+      if (wireType === LEN && !["string", "bytes", "message", "group"].includes(field.kind)) {
+        const packed = new WireReader(reader.lengthDelimited());
+        while (!packed.done) {
+          list.push(readScalar(packed, field, wireTypeOf(field.kind), types));
+        }
+      } else {
+        list.push(readScalar(reader, field, wireType, types));
+      }
+    } else {
+      fields[field.name] = readScalar(reader, field, wireType, types);
+    }
+  }
+  for (const [name, list] of lists) {
+    fields[name] = new ListValue(list);
+  }
+  for (const [name, entries] of maps) {
+    fields[name] = new MapValue(entries);
+  }
+  return new StructValue(typeName, fields);
+}
+
+function readScalar(reader: WireReader, field: FieldDescriptor, wireType: number, types: ProtoTypeProvider): Value {
+  if (wireType !== wireTypeOf(field.kind)) {
+    throw new Error(`Unexpected wire type ${wireType} for field ${field.name}`);
+  }
+  switch (field.kind) {
+    case "double":
+      return new FloatValue(reader.double());
+    case "float":
+      return new FloatValue(reader.float());
+    case "int64":
+      return new IntValue(toSigned(...reader.varint()));
+    case "uint64":
+      return new UintValue(toUnsigned(...reader.varint()));
+    case "int32":
+    case "enum":
+      return new IntValue(BigInt(reader.varint()[0] | 0));
+    case "uint32":
+      return new UintValue(BigInt(reader.varint()[0]));
+    case "sint32":
+    case "sint64":
+      return new IntValue(toSigned(...zigZagDecode(...reader.varint())));
+    case "bool": {
+      const [lo, hi] = reader.varint();
+      return new BoolValue(lo !== 0 || hi !== 0);
+    }
+    case "fixed32":
+      return new UintValue(BigInt(reader.fixed32()));
+    case "sfixed32":
+      return new IntValue(BigInt(reader.fixed32() | 0));
+    case "fixed64":
+      return new UintValue(toUnsigned(...reader.fixed64()));
+    case "sfixed64":
+      return new IntValue(toSigned(...reader.fixed64()));
+    case "string":
+      return new StringValue(UTF8_DECODER.decode(reader.lengthDelimited()));
+    case "bytes":
+      return new ByteValue(bytesToString(reader.lengthDelimited()));
+    case "message":
+      return decodeMessage(reader.lengthDelimited(), field.typeName!, types);
+    case "group":
+      throw new Error(`Unsupported group field ${field.name}`);
+  }
+}
+
+function expectLengthDelimited(reader: WireReader, wireType: number, field: FieldDescriptor): Uint8Array {
+  if (wireType !== LEN) {
+    throw new Error(`Unexpected wire type ${wireType} for field ${field.name}`);
+  }
+  return reader.lengthDelimited();
+}
+
+function wireTypeOf(kind: FieldKind): number {
+  switch (kind) {
+    case "double":
+    case "fixed64":
+    case "sfixed64":
+      return I64;
+    case "float":
+    case "fixed32":
+    case "sfixed32":
+      return I32;
+    case "string":
+    case "bytes":
+    case "message":
+    case "group":
+      return LEN;
+    default:
+      return VARINT;
+  }
+}
+
+// What an unset field of a map entry reads as
+function zeroValue(field: FieldDescriptor): Value {
+  switch (field.kind) {
+    case "double":
+    case "float":
+      return new FloatValue(0);
+    case "uint32":
+    case "uint64":
+    case "fixed32":
+    case "fixed64":
+      return new UintValue(0n);
+    case "bool":
+      return new BoolValue(false);
+    case "string":
+      return new StringValue("");
+    case "bytes":
+      return new ByteValue("");
+    case "message":
+    case "group":
+      return new StructValue(field.typeName!, {});
+    default:
+      return new IntValue(0n);
+  }
+}
+
+export function encodeMessage(value: StructValue, types: ProtoTypeProvider): Uint8Array {
+  const message = own(types.messages, value.typeName);
+  if (message === undefined) {
+    throw new Error(`Unknown message type ${value.typeName}`);
+  }
+  const writer = new WireWriter();
+  for (const field of message.fields) {
+    const fieldValue = own(value.value, field.name);
+    if (fieldValue === undefined) {
+      continue;
+    }
+    const entry = types.mapEntry(field);
+    if (entry !== undefined) {
+      const [keyField, valueField] = entry.fields;
+      for (const [key, item] of expectValue(fieldValue, MapValue, field).value) {
+        const entryWriter = new WireWriter();
+        writeField(entryWriter, keyField, key, types);
+        writeField(entryWriter, valueField, item, types);
+        writer.tag(field.number, LEN);
+        writer.lengthDelimited(entryWriter.finish());
+      }
+    } else if (field.packed) {
+      const packedWriter = new WireWriter();
+      for (const elem of expectValue(fieldValue, ListValue, field).value) {
+        writeScalar(packedWriter, field, elem, types);
+      }
+      writer.tag(field.number, LEN);
+      writer.lengthDelimited(packedWriter.finish());
+    } else if (field.repeated) {
+      for (const elem of expectValue(fieldValue, ListValue, field).value) {
+        writeField(writer, field, elem, types);
+      }
+    } else {
+      writeField(writer, field, fieldValue, types);
+    }
+  }
+  return writer.finish();
+}
+
+function writeField(writer: WireWriter, field: FieldDescriptor, value: Value, types: ProtoTypeProvider) {
+  writer.tag(field.number, wireTypeOf(field.kind));
+  writeScalar(writer, field, value, types);
+}
+
+function writeScalar(writer: WireWriter, field: FieldDescriptor, value: Value, types: ProtoTypeProvider) {
+  switch (field.kind) {
+    case "double":
+      return writer.double(expectValue(value, FloatValue, field).value);
+    case "float":
+      return writer.float(expectValue(value, FloatValue, field).value);
+    case "int32":
+    case "enum":
+      return writer.varint(...split(expectInRange(expectValue(value, IntValue, field).value, true, field)));
+    case "int64":
+      return writer.varint(...split(expectValue(value, IntValue, field).value));
+    case "uint32":
+      return writer.varint(...split(expectInRange(expectValue(value, UintValue, field).value, false, field)));
+    case "uint64":
+      return writer.varint(...split(expectValue(value, UintValue, field).value));
+    case "sint32":
+      return writer.varint(
+        ...zigZagEncode(...split(expectInRange(expectValue(value, IntValue, field).value, true, field)))
+      );
+    case "sint64":
+      return writer.varint(...zigZagEncode(...split(expectValue(value, IntValue, field).value)));
+    case "bool":
+      return writer.varint(expectValue(value, BoolValue, field).value ? 1 : 0);
+    case "fixed32":
+      return writer.fixed32(Number(expectInRange(expectValue(value, UintValue, field).value, false, field)));
+    case "sfixed32":
+      return writer.fixed32(Number(expectInRange(expectValue(value, IntValue, field).value, true, field)));
+    case "fixed64":
+      return writer.fixed64(...split(expectValue(value, UintValue, field).value));
+    case "sfixed64":
+      return writer.fixed64(...split(expectValue(value, IntValue, field).value));
+    case "string":
+      return writer.lengthDelimited(UTF8_ENCODER.encode(expectValue(value, StringValue, field).value));
+    case "bytes":
+      return writer.lengthDelimited(stringToBytes(expectValue(value, ByteValue, field).value));
+    case "message":
+      return writer.lengthDelimited(encodeMessage(expectValue(value, StructValue, field), types));
+    case "group":
+      throw new Error(`Unsupported group field ${field.name}`);
+  }
+}
+
+// 32-bit fields cannot hold every int or uint
+function expectInRange(value: bigint, signed: boolean, field: FieldDescriptor): bigint {
+  if ((signed ? BigInt.asIntN(32, value) : BigInt.asUintN(32, value)) !== value) {
+    throw new Error(`Field ${field.name} of kind ${field.kind} does not accept ${value}, which is out of range`);
+  }
+  return value;
+}
+
+function expectValue<T extends Value>(
+  value: Value,
+  valueClass: new (...args: never[]) => T,
+  field: FieldDescriptor
+): T {
+  if (!(value instanceof valueClass)) {
+    throw new Error(`Field ${field.name} of kind ${field.kind} does not accept ${value.constructor.name}`);
+  }
+  return value;
+}
+
+function testProtobuf() {
+  const types = new ProtoTypeProvider(
+    {
+      "acme.Request": new MessageDescriptor(
+        "acme.Request",
+        [
+          new FieldDescriptor("size", 1, "int64", undefined, false, false),
+          new FieldDescriptor("codes", 2, "sint32", undefined, true, true),
+          new FieldDescriptor("labels", 3, "message", "acme.Request.LabelsEntry", true, false),
+        ],
+        false
+      ),
+      "acme.Request.LabelsEntry": new MessageDescriptor(
+        "acme.Request.LabelsEntry",
+        [
+          new FieldDescriptor("key", 1, "string", undefined, false, false),
+          new FieldDescriptor("value", 2, "string", undefined, false, false),
+        ],
+        true
+      ),
+    },
+    {}
+  );
+  const request = new StructValue("acme.Request", {
+    size: new IntValue(-(2n ** 63n)),
+    codes: new ListValue([new IntValue(-1n), new IntValue(150n)]),
+    labels: new MapValue([[new StringValue("env"), new StringValue("prod")]]),
+  });
+  const encoded = encodeMessage(request, types);
+  console.log(encodeMessage(decodeMessage(encoded, "acme.Request", types), types).join() === encoded.join());
+  // Names of Object.prototype members and names without a dot are unknown rather than crashing
+  const unknown = [
+    types.findType("toString"),
+    types.findFieldNames("constructor"),
+    types.findFieldType("acme.Request", "toString"),
+    types.findEnumValue("toString.x"),
+    types.findEnumValue("hasOwnProperty.RED"),
+    types.findEnumValue("RED"),
+  ];
+  console.log(unknown.every((result) => result === undefined));
+}
+
+if (require.main === module) {
+  testProtobuf();
+}
@@ -0,0 +1,364 @@
+/*
+Checker declarations and values from JSON Schema documents
+https://json-schema.org/draft/2020-12/json-schema-core
+https://json-schema.org/draft/2020-12/json-schema-validation
+*/
+
+/*
+NOTE:
+* Objects with properties become message types, so that reading an undeclared property is a type error.
+  They are named by their definition for $ref, or by their path from the variable otherwise, such as request.user
+* Objects without properties become maps, map(string, T) if additionalProperties is a schema and map(string, dyn) otherwise
+* Additional properties next to declared ones make the object a map(string, dyn), since a message could not hold them
+* Only local $ref into the same document, such as #/$defs/User, and no anyOf, oneOf or allOf, which become dyn
+* Enums and consts take the type of their values, the values themselves are not checked
+* Nullable types such as ["string", "null"] take the non-null type. When converting, a null property is left unset
+  if its schema allows null and rejected otherwise.
+* Numbers are doubles and integers are ints, like JSON in cel-go
+*/
+import { readFileSync } from "fs";
+import { checker, CheckError } from "./checker";
+import { Decl, VariableDecl } from "./decls";
+import {
+  BoolValue,
+  FloatValue,
+  IntValue,
+  ListValue,
+  MapValue,
+  NullValue,
+  StringValue,
+  StructValue,
+  Value,
+} from "./interpreter";
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+import {
+  BOOL_TYPE,
+  DOUBLE_TYPE,
+  DYN_TYPE,
+  DynType,
+  INT_TYPE,
+  ListType,
+  MapType,
+  MessageType,
+  NULL_TYPE,
+  PrimitiveType,
+  STRING_TYPE,
+  StructTypeProvider,
+  Type,
+  TypeProvider,
+} from "./types";
+
+// The keywords that are understood, others are ignored
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+}
+
+// What to pass to checker(), and the type that jsonToValue() converts payloads to
+export interface SchemaDeclarations {
+  declarations: Decl[];
+  typeProvider: StructTypeProvider;
+  type: Type;
+  // Fields such as User.name whose schema allows null, which jsonToValue() leaves unset for a null
+  nullableFields: Set<string>;
+}
+
+// State shared while deriving the types of one schema document
+class SchemaContext {
+  // Fields of the message types found so far, which becomes the type provider
+  public readonly messages: Record<string, Record<string, Type>> = {};
+  // Types by JSON pointer, which is how references name them
+  public readonly refTypes = new Map<string, Type>();
+  // References being resolved, to stop at cycles that no message type breaks
+  public readonly resolving = new Set<string>();
+  public readonly nullableFields = new Set<string>();
+
+  constructor(public readonly root: JsonSchema) {}
+}
+
+export function readJsonSchema(path: string): JsonSchema {
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+// Declares the variable with the type the schema describes, such as request for a request payload schema
+export function schemaDeclarations(schema: JsonSchema, variable: string): SchemaDeclarations {
+  const ctx = new SchemaContext(schema);
+  const type = schemaType(schema, variable, "#", ctx);
+  return {
+    declarations: [new VariableDecl(variable, type)],
+    typeProvider: new StructTypeProvider(ctx.messages),
+    type,
+    nullableFields: ctx.nullableFields,
+  };
+}
+
+function schemaType(schema: JsonSchema, name: string, pointer: string, ctx: SchemaContext): Type {
+  if (typeof schema === "boolean") {
+    return DYN_TYPE;
+  }
+  if (schema.$ref !== undefined) {
+    return refType(schema.$ref, pointer, ctx);
+  }
+  if (schema.const !== undefined || schema.enum !== undefined) {
+    return valuesType(schema.const !== undefined ? [schema.const] : schema.enum!);
+  }
+  const types = typeof schema.type === "string" ? [schema.type] : schema.type ?? [];
+  const nonNull = types.filter((type) => type !== "null");
+  if (types.length > 0 && nonNull.length === 0) {
+    return NULL_TYPE;
+  }
+  if (nonNull.length > 1) {
+    return DYN_TYPE;
+  }
+  switch (nonNull[0] ?? (schema.properties !== undefined ? "object" : undefined)) {
+    case "string":
+      return STRING_TYPE;
+    case "integer":
+      return INT_TYPE;
+    case "number":
+      return DOUBLE_TYPE;
+    case "boolean":
+      return BOOL_TYPE;
+    case "array":
+      return new ListType(
+        schema.items !== undefined ? schemaType(schema.items, name, `${pointer}/items`, ctx) : DYN_TYPE
+      );
+    case "object":
+      return objectType(schema, name, pointer, ctx);
+    default:
+      return DYN_TYPE;
+  }
+}
+
+function objectType(schema: JsonSchema, name: string, pointer: string, ctx: SchemaContext): Type {
+  const { properties, additionalProperties } = schema;
+  if (properties === undefined) {
+    if (typeof additionalProperties === "object") {
+      return new MapType(STRING_TYPE, schemaType(additionalProperties, name, `${pointer}/additionalProperties`, ctx));
+    }
+    return new MapType(STRING_TYPE, DYN_TYPE);
+  }
+  if (additionalProperties !== undefined && additionalProperties !== false) {
+    return new MapType(STRING_TYPE, DYN_TYPE);
+  }
+  // Registered before the fields, so that recursive references find it
+  const fields: Record<string, Type> = {};
+  ctx.messages[name] = fields;
+  ctx.refTypes.set(pointer, new MessageType(name));
+  for (const [property, propertySchema] of Object.entries(properties)) {
+    const propertyPointer = `${pointer}/properties/${property}`;
+    fields[property] = schemaType(propertySchema, `${name}.${property}`, propertyPointer, ctx);
+    if (allowsNull(propertySchema, propertyPointer, ctx)) {
+      ctx.nullableFields.add(`${name}.${property}`);
+    }
+  }
+  return new MessageType(name);
+}
+
+function refType(ref: string, pointer: string, ctx: SchemaContext): Type {
+  if (!ref.startsWith("#")) {
+    throw new Error(`Unsupported reference ${ref} at ${pointer}, only references within the document are supported`);
+  }
+  const known = ctx.refTypes.get(ref);
+  if (known !== undefined) {
+    return known;
+  }
+  if (ctx.resolving.has(ref)) {
+    return DYN_TYPE;
+  }
+  const segments = refSegments(ref);
+  ctx.resolving.add(ref);
+  const type = schemaType(resolveRef(ref, pointer, ctx), segments[segments.length - 1] ?? "root", ref, ctx);
+  ctx.resolving.delete(ref);
+  ctx.refTypes.set(ref, type);
+  return type;
+}
+
+function refSegments(ref: string): string[] {
+  return ref
+    .slice(1)
+    .split("/")
+    .filter((segment) => segment !== "")
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function resolveRef(ref: string, pointer: string, ctx: SchemaContext): JsonSchema {
+  let target: unknown = ctx.root;
+  for (const segment of refSegments(ref)) {
+    if (typeof target !== "object" || target === null || !(segment in target)) {
+      throw new Error(`Unresolved reference ${ref} at ${pointer}`);
+    }
+    target = (target as Record<string, unknown>)[segment];
+  }
+  return target as JsonSchema;
+}
+
+// Whether null is a valid value, following references until a schema that says
+function allowsNull(schema: JsonSchema, pointer: string, ctx: SchemaContext, seen = new Set<string>()): boolean {
+  if (typeof schema === "boolean") {
+    return schema;
+  }
+  if (schema.$ref !== undefined) {
+    if (!schema.$ref.startsWith("#") || seen.has(schema.$ref)) {
+      return false;
+    }
+    seen.add(schema.$ref);
+    return allowsNull(resolveRef(schema.$ref, pointer, ctx), schema.$ref, ctx, seen);
+  }
+  if (schema.const !== undefined || schema.enum !== undefined) {
+    return (schema.const !== undefined ? [schema.const] : schema.enum!).includes(null);
+  }
+  return (
+    schema.type === undefined || schema.type === "null" || (Array.isArray(schema.type) && schema.type.includes("null"))
+  );
+}
+
+function valuesType(values: unknown[]): Type {
+  const types = values.map((value) => {
+    if (value === null) {
+      return NULL_TYPE;
+    }
+    switch (typeof value) {
+      case "string":
+        return STRING_TYPE;
+      case "boolean":
+        return BOOL_TYPE;
+      case "number":
+        return Number.isInteger(value) ? INT_TYPE : DOUBLE_TYPE;
+      default:
+        return DYN_TYPE;
+    }
+  });
+  return types.length > 0 && types.every((type) => type === types[0]) ? types[0] : DYN_TYPE;
+}
+
+// Converts a parsed JSON document to the value of the given type, as derived by schemaDeclarations()
+export function jsonToValue(
+  json: unknown,
+  type: Type,
+  typeProvider: TypeProvider,
+  nullableFields: Set<string> = new Set(),
+  pointer = ""
+): Value {
+  if (type instanceof DynType) {
+    return dynJsonToValue(json);
+  }
+  if (type instanceof PrimitiveType) {
+    return primitiveJsonToValue(json, type, pointer);
+  }
+  if (type instanceof ListType) {
+    if (!Array.isArray(json)) {
+      throw new Error(`Expected an array at ${pointer || "/"}`);
+    }
+    return new ListValue(
+      json.map((elem, i) => jsonToValue(elem, type.elemType, typeProvider, nullableFields, `${pointer}/${i}`))
+    );
+  }
+  if (!isJsonObject(json)) {
+    throw new Error(`Expected an object at ${pointer || "/"}`);
+  }
+  if (type instanceof MapType) {
+    return new MapValue(
+      Object.entries(json).map(([key, value]) => [
+        new StringValue(key),
+        jsonToValue(value, type.valueType, typeProvider, nullableFields, `${pointer}/${key}`),
+      ])
+    );
+  }
+  if (!(type instanceof MessageType)) {
+    throw new Error(`Unsupported type ${type} at ${pointer || "/"}`);
+  }
+  const fields: Record<string, Value> = {};
+  for (const [property, value] of Object.entries(json)) {
+    const fieldType = typeProvider.findFieldType(type.name, property);
+    if (fieldType === undefined) {
+      throw new Error(`Unexpected property ${property} at ${pointer || "/"}`);
+    }
+    if (value === null && fieldType !== NULL_TYPE && nullableFields.has(`${type.name}.${property}`)) {
+      continue;
+    }
+    fields[property] = jsonToValue(value, fieldType, typeProvider, nullableFields, `${pointer}/${property}`);
+  }
+  return new StructValue(type.name, fields);
+}
+
+function primitiveJsonToValue(json: unknown, type: PrimitiveType, pointer: string): Value {
+  if (type.name === "int" && typeof json === "number" && Number.isInteger(json)) {
+    return new IntValue(BigInt(json));
+  }
+  if (type.name === "double" && typeof json === "number") {
+    return new FloatValue(json);
+  }
+  if (type.name === "string" && typeof json === "string") {
+    return new StringValue(json);
+  }
+  if (type.name === "bool" && typeof json === "boolean") {
+    return new BoolValue(json);
+  }
+  if (type.name === "null_type" && json === null) {
+    return new NullValue();
+  }
+  throw new Error(`Expected ${type} at ${pointer || "/"}, got ${JSON.stringify(json)}`);
+}
+
+function dynJsonToValue(json: unknown): Value {
+  if (json === null) {
+    return new NullValue();
+  }
+  switch (typeof json) {
+    case "boolean":
+      return new BoolValue(json);
+    case "number":
+      return new FloatValue(json);
+    case "string":
+      return new StringValue(json);
+  }
+  if (Array.isArray(json)) {
+    return new ListValue(json.map(dynJsonToValue));
+  }
+  if (isJsonObject(json)) {
+    return new MapValue(Object.entries(json).map(([key, value]) => [new StringValue(key), dynJsonToValue(value)]));
+  }
+  throw new Error(`Unexpected JSON value ${json}`);
+}
+
+function isJsonObject(json: unknown): json is Record<string, unknown> {
+  return typeof json === "object" && json !== null && !Array.isArray(json);
+}
+
+function testSchema() {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      user: { $ref: "#/$defs/User" },
+      method: { enum: ["GET", "POST"] },
+      labels: { type: "object", additionalProperties: { type: "string" } },
+    },
+    $defs: {
+      User: {
+        type: "object",
+        properties: { age: { type: "integer" }, name: { type: ["string", "null"] }, manager: { $ref: "#/$defs/User" } },
+      },
+    },
+  };
+  const { declarations, typeProvider } = schemaDeclarations(schema, "request");
+  const input = `request.user.age > "x"`;
+  // const input = `request.user.manager.age > 18 && request.labels["env"] == "prod"`;
+  try {
+    checker(parser(lexer(input)), declarations, { typeProvider });
+  } catch (e) {
+    console.log(e instanceof CheckError);
+  }
+}
+
+if (require.main === module) {
+  testSchema();
+}
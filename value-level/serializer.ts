@@ -0,0 +1,452 @@
+/*
+Protobuf JSON form of google.api.expr.v1alpha1.ParsedExpr and CheckedExpr
+https://github.com/google/cel-spec/blob/master/proto/cel/expr/syntax.proto
+https://github.com/google/cel-spec/blob/master/proto/cel/expr/checked.proto
+https://protobuf.dev/programming-guides/proto3/#json
+*/
+
+/*
+NOTE:
+* int64 and uint64 values are strings, bytes are base64 and non-finite doubles are strings as in the protobuf JSON mapping
+* Positions and line offsets count code points like cel-go, not UTF-16 code units
+* Imported nodes get empty spans at their recorded positions, pass the source text to get readable error snippets
+* Calls reference their overloads by id only like cel-go, importing finds them among the standard declarations and
+  the given ones, so that user overloads get their implementations back
+* Types this tree does not model, such as wrappers and well-known types, import as dyn
+*/
+import {
+  CallExpr,
+  ComprehensionExpr,
+  ConstExpr,
+  CreateListExpr,
+  CreateMapExpr,
+  CreateStructExpr,
+  Expr,
+  IdentExpr,
+  MapEntry,
+  SelectExpr,
+  StructField,
+} from "./ast";
+import { CheckedExpr, checker, Reference } from "./checker";
+import { Decl, FunctionDecl, OverloadDecl, STANDARD_DECLARATIONS, VariableDecl } from "./decls";
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+import { CelError, Source, Span } from "./source";
+import {
+  BOOL_TYPE,
+  BYTES_TYPE,
+  DOUBLE_TYPE,
+  DYN_TYPE,
+  INT_TYPE,
+  ListType,
+  MapType,
+  MessageType,
+  NULL_TYPE,
+  OptionalType,
+  PrimitiveType,
+  STRING_TYPE,
+  Type,
+  TypeParamType,
+  UINT_TYPE,
+} from "./types";
+
+export interface ParsedExprJson {
+  expr: ExprJson;
+  sourceInfo?: SourceInfoJson;
+}
+
+export interface CheckedExprJson extends ParsedExprJson {
+  referenceMap?: Record<string, ReferenceJson>;
+  typeMap?: Record<string, TypeJson>;
+}
+
+export interface ReferenceJson {
+  name?: string;
+  overloadId?: string[];
+}
+
+export interface TypeJson {
+  dyn?: Record<string, never>;
+  null?: "NULL_VALUE" | 0;
+  primitive?: PrimitiveJson;
+  listType?: { elemType: TypeJson };
+  mapType?: { keyType: TypeJson; valueType: TypeJson };
+  messageType?: string;
+  typeParam?: string;
+  abstractType?: { name: string; parameterTypes?: TypeJson[] };
+}
+
+type PrimitiveJson = "BOOL" | "INT64" | "UINT64" | "DOUBLE" | "STRING" | "BYTES";
+
+const PRIMITIVES: [PrimitiveType, PrimitiveJson][] = [
+  [BOOL_TYPE, "BOOL"],
+  [INT_TYPE, "INT64"],
+  [UINT_TYPE, "UINT64"],
+  [DOUBLE_TYPE, "DOUBLE"],
+  [STRING_TYPE, "STRING"],
+  [BYTES_TYPE, "BYTES"],
+];
+
+export interface SourceInfoJson {
+  location?: string;
+  lineOffsets?: number[];
+  positions?: Record<string, number>;
+}
+
+export interface ExprJson {
+  id: string | number;
+  constExpr?: ConstantJson;
+  identExpr?: { name: string };
+  selectExpr?: { operand: ExprJson; field: string; testOnly?: boolean };
+  callExpr?: { target?: ExprJson; function: string; args?: ExprJson[] };
+  listExpr?: { elements?: ExprJson[]; optionalIndices?: number[] };
+  structExpr?: { messageName?: string; entries?: EntryJson[] };
+  comprehensionExpr?: {
+    iterVar: string;
+    iterVar2?: string;
+    iterRange: ExprJson;
+    accuVar: string;
+    accuInit: ExprJson;
+    loopCondition: ExprJson;
+    loopStep: ExprJson;
+    result: ExprJson;
+  };
+}
+
+export interface ConstantJson {
+  nullValue?: "NULL_VALUE" | 0;
+  boolValue?: boolean;
+  int64Value?: string | number;
+  uint64Value?: string | number;
+  doubleValue?: number | string;
+  stringValue?: string;
+  bytesValue?: string;
+}
+
+export interface EntryJson {
+  id: string | number;
+  fieldKey?: string;
+  mapKey?: ExprJson;
+  value: ExprJson;
+  optionalEntry?: boolean;
+}
+
+export function toParsedExpr(expr: Expr): ParsedExprJson {
+  const source = expr.span.source;
+  const positions: Record<string, number> = {};
+  const json = exprToJson(expr, positions);
+  // cel-go records where each line ends, including the last one
+  const lineOffsets = [...source.lineOffsets.slice(1), source.text.length + 1];
+  return {
+    expr: json,
+    sourceInfo: {
+      location: source.name,
+      lineOffsets: lineOffsets.map((offset) => source.codePointOffset(offset)),
+      positions,
+    },
+  };
+}
+
+function exprToJson(expr: Expr, positions: Record<string, number>): ExprJson {
+  positions[expr.id] = expr.span.source.codePointOffset(expr.span.start.offset);
+  const id = String(expr.id);
+  if (expr instanceof ConstExpr) {
+    return { id, constExpr: constToJson(expr) };
+  }
+  if (expr instanceof IdentExpr) {
+    return { id, identExpr: { name: expr.name } };
+  }
+  if (expr instanceof SelectExpr) {
+    const selectExpr = { operand: exprToJson(expr.operand, positions), field: expr.field };
+    return { id, selectExpr: expr.testOnly ? { ...selectExpr, testOnly: true } : selectExpr };
+  }
+  if (expr instanceof CallExpr) {
+    const args = expr.args.map((arg) => exprToJson(arg, positions));
+    if (expr.target === undefined) {
+      return { id, callExpr: { function: expr.func, args } };
+    }
+    return { id, callExpr: { target: exprToJson(expr.target, positions), function: expr.func, args } };
+  }
+  if (expr instanceof CreateListExpr) {
+    const elements = expr.elements.map((element) => exprToJson(element, positions));
+    const optionalIndices = expr.optionalIndices.length > 0 ? { optionalIndices: expr.optionalIndices } : {};
+    return { id, listExpr: { elements, ...optionalIndices } };
+  }
+  if (expr instanceof CreateStructExpr) {
+    const entries = expr.fields.map((field) => {
+      positions[field.id] = field.span.source.codePointOffset(field.span.start.offset);
+      const entry = { id: String(field.id), fieldKey: field.field, value: exprToJson(field.value, positions) };
+      return field.optional ? { ...entry, optionalEntry: true } : entry;
+    });
+    return { id, structExpr: { messageName: expr.messageName, entries } };
+  }
+  if (expr instanceof CreateMapExpr) {
+    const entries = expr.entries.map((entry) => {
+      positions[entry.id] = entry.span.source.codePointOffset(entry.span.start.offset);
+      const json = {
+        id: String(entry.id),
+        mapKey: exprToJson(entry.key, positions),
+        value: exprToJson(entry.value, positions),
+      };
+      return entry.optional ? { ...json, optionalEntry: true } : json;
+    });
+    return { id, structExpr: { entries } };
+  }
+  return {
+    id,
+    comprehensionExpr: {
+      iterVar: expr.iterVar,
+      ...(expr.iterVar2 !== undefined ? { iterVar2: expr.iterVar2 } : {}),
+      iterRange: exprToJson(expr.iterRange, positions),
+      accuVar: expr.accuVar,
+      accuInit: exprToJson(expr.accuInit, positions),
+      loopCondition: exprToJson(expr.loopCondition, positions),
+      loopStep: exprToJson(expr.loopStep, positions),
+      result: exprToJson(expr.result, positions),
+    },
+  };
+}
+
+function constToJson(constExpr: ConstExpr): ConstantJson {
+  switch (constExpr.kind) {
+    case "int":
+      return { int64Value: String(constExpr.value) };
+    case "uint":
+      return { uint64Value: String(constExpr.value) };
+    case "double":
+      return { doubleValue: Number.isFinite(constExpr.value) ? (constExpr.value as number) : String(constExpr.value) };
+    case "string":
+      return { stringValue: constExpr.value as string };
+    case "bytes":
+      return { bytesValue: btoa(constExpr.value as string) };
+    case "bool":
+      return { boolValue: constExpr.value as boolean };
+    case "null":
+      return { nullValue: "NULL_VALUE" };
+  }
+}
+
+export function fromParsedExpr(json: ParsedExprJson, text: string = ""): Expr {
+  const source = new Source(text, json.sourceInfo?.location);
+  return exprFromJson(json.expr, source, json.sourceInfo?.positions ?? {});
+}
+
+function exprFromJson(json: ExprJson, source: Source, positions: Record<string, number>): Expr {
+  const id = Number(json.id);
+  const offset = source.offsetOfCodePoint(positions[json.id] ?? 0);
+  const span = source.span(offset, offset);
+  const child = (node: ExprJson) => exprFromJson(node, source, positions);
+  if (json.constExpr !== undefined) {
+    return constFromJson(id, json.constExpr, span);
+  }
+  if (json.identExpr !== undefined) {
+    return new IdentExpr(id, json.identExpr.name, span);
+  }
+  if (json.selectExpr !== undefined) {
+    const { operand, field, testOnly } = json.selectExpr;
+    return new SelectExpr(id, child(operand), field, testOnly ?? false, span);
+  }
+  if (json.callExpr !== undefined) {
+    const { target, function: func, args } = json.callExpr;
+    return new CallExpr(id, target !== undefined ? child(target) : undefined, func, (args ?? []).map(child), span);
+  }
+  if (json.listExpr !== undefined) {
+    const { elements = [], optionalIndices = [] } = json.listExpr;
+    return new CreateListExpr(id, elements.map(child), optionalIndices, span);
+  }
+  if (json.structExpr !== undefined) {
+    const { messageName, entries = [] } = json.structExpr;
+    const entrySpan = (entry: EntryJson) => {
+      const offset = source.offsetOfCodePoint(positions[entry.id] ?? 0);
+      return source.span(offset, offset);
+    };
+    if (messageName !== undefined && messageName !== "") {
+      const fields = entries.map(
+        (entry) =>
+          new StructField(
+            Number(entry.id),
+            entry.fieldKey ?? "",
+            child(entry.value),
+            entry.optionalEntry ?? false,
+            entrySpan(entry)
+          )
+      );
+      return new CreateStructExpr(id, messageName, fields, span);
+    }
+    const mapEntries = entries.map((entry) => {
+      if (entry.mapKey === undefined) {
+        throw new CelError(`Missing map key in entry ${entry.id}`);
+      }
+      const optional = entry.optionalEntry ?? false;
+      return new MapEntry(Number(entry.id), child(entry.mapKey), child(entry.value), optional, entrySpan(entry));
+    });
+    return new CreateMapExpr(id, mapEntries, span);
+  }
+  if (json.comprehensionExpr !== undefined) {
+    const { iterVar, iterVar2, iterRange, accuVar, accuInit, loopCondition, loopStep, result } = json.comprehensionExpr;
+    return new ComprehensionExpr(
+      id,
+      iterVar,
+      iterVar2 !== undefined && iterVar2 !== "" ? iterVar2 : undefined,
+      child(iterRange),
+      accuVar,
+      child(accuInit),
+      child(loopCondition),
+      child(loopStep),
+      child(result),
+      span
+    );
+  }
+  throw new CelError(`Unknown expression kind in node ${json.id}`);
+}
+
+function constFromJson(id: number, json: ConstantJson, span: Span): ConstExpr {
+  if (json.nullValue !== undefined) {
+    return new ConstExpr(id, "null", null, span);
+  }
+  if (json.boolValue !== undefined) {
+    return new ConstExpr(id, "bool", json.boolValue, span);
+  }
+  if (json.int64Value !== undefined) {
+    return new ConstExpr(id, "int", BigInt(json.int64Value), span);
+  }
+  if (json.uint64Value !== undefined) {
+    return new ConstExpr(id, "uint", BigInt(json.uint64Value), span);
+  }
+  if (json.doubleValue !== undefined) {
+    return new ConstExpr(id, "double", Number(json.doubleValue), span);
+  }
+  if (json.stringValue !== undefined) {
+    return new ConstExpr(id, "string", json.stringValue, span);
+  }
+  if (json.bytesValue !== undefined) {
+    return new ConstExpr(id, "bytes", atob(json.bytesValue), span);
+  }
+  throw new CelError(`Unknown constant kind in node ${id}`);
+}
+
+export function toCheckedExpr(checked: CheckedExpr): CheckedExprJson {
+  const referenceMap: Record<string, ReferenceJson> = {};
+  checked.references.forEach((reference, id) => {
+    const overloadIds = reference.overloads.map((overload) => overload.id);
+    referenceMap[id] = overloadIds.length > 0 ? { overloadId: overloadIds } : { name: reference.name };
+  });
+  const typeMap: Record<string, TypeJson> = {};
+  checked.types.forEach((type, id) => {
+    typeMap[id] = typeToJson(type);
+  });
+  return { ...toParsedExpr(checked.expr), referenceMap, typeMap };
+}
+
+function typeToJson(type: Type): TypeJson {
+  if (type instanceof PrimitiveType) {
+    if (type === NULL_TYPE) {
+      return { null: "NULL_VALUE" };
+    }
+    return { primitive: PRIMITIVES.find(([primitive]) => primitive.name === type.name)![1] };
+  }
+  if (type instanceof ListType) {
+    return { listType: { elemType: typeToJson(type.elemType) } };
+  }
+  if (type instanceof MapType) {
+    return { mapType: { keyType: typeToJson(type.keyType), valueType: typeToJson(type.valueType) } };
+  }
+  if (type instanceof MessageType) {
+    return { messageType: type.name };
+  }
+  if (type instanceof OptionalType) {
+    return { abstractType: { name: "optional_type", parameterTypes: [typeToJson(type.elemType)] } };
+  }
+  if (type instanceof TypeParamType) {
+    return { typeParam: type.name };
+  }
+  return { dyn: {} };
+}
+
+// Declarations are needed for the overloads of functions beyond the standard ones
+export function fromCheckedExpr(json: CheckedExprJson, declarations: Decl[] = [], text: string = ""): CheckedExpr {
+  const overloads = new Map<string, [string, OverloadDecl]>();
+  for (const decl of [...STANDARD_DECLARATIONS, ...declarations]) {
+    if (decl instanceof FunctionDecl) {
+      decl.overloads.forEach((overload) => overloads.set(overload.id, [decl.name, overload]));
+    }
+  }
+  const references = new Map<number, Reference>();
+  for (const [id, reference] of Object.entries(json.referenceMap ?? {})) {
+    const matched = (reference.overloadId ?? []).map((overloadId) => {
+      const found = overloads.get(overloadId);
+      if (found === undefined) {
+        throw new CelError(`Unknown overload ${overloadId} in node ${id}`);
+      }
+      return found;
+    });
+    // Function names come from the declarations, since call references carry none
+    const name = reference.name || matched[0]?.[0] || "";
+    references.set(
+      Number(id),
+      new Reference(
+        name,
+        matched.map(([, overload]) => overload)
+      )
+    );
+  }
+  const types = new Map<number, Type>();
+  for (const [id, type] of Object.entries(json.typeMap ?? {})) {
+    types.set(Number(id), typeFromJson(type));
+  }
+  return new CheckedExpr(fromParsedExpr(json, text), types, references);
+}
+
+function typeFromJson(json: TypeJson): Type {
+  if (json.null !== undefined) {
+    return NULL_TYPE;
+  }
+  if (json.primitive !== undefined) {
+    return PRIMITIVES.find(([, primitive]) => primitive === json.primitive)?.[0] ?? DYN_TYPE;
+  }
+  if (json.listType !== undefined) {
+    return new ListType(typeFromJson(json.listType.elemType));
+  }
+  if (json.mapType !== undefined) {
+    return new MapType(typeFromJson(json.mapType.keyType), typeFromJson(json.mapType.valueType));
+  }
+  if (json.messageType !== undefined) {
+    return new MessageType(json.messageType);
+  }
+  if (json.typeParam !== undefined) {
+    return new TypeParamType(json.typeParam);
+  }
+  const { name, parameterTypes = [] } = json.abstractType ?? {};
+  if (name === "optional_type" && parameterTypes.length === 1) {
+    return new OptionalType(typeFromJson(parameterTypes[0]));
+  }
+  return DYN_TYPE;
+}
+
+function testSerializer() {
+  const input = `has(request.auth) && request.auth.claims["email"].endsWith("@example.com")`;
+  const parsed = parser(lexer(input));
+  const json = toParsedExpr(parsed);
+  console.log(JSON.stringify(json));
+  console.log(JSON.stringify(toParsedExpr(fromParsedExpr(json, input))) === JSON.stringify(json));
+
+  const checkedJson = toCheckedExpr(
+    checker(parsed, [new VariableDecl("request", new MapType(STRING_TYPE, new MapType(STRING_TYPE, DYN_TYPE)))])
+  );
+  console.log(JSON.stringify(toCheckedExpr(fromCheckedExpr(checkedJson, [], input))) === JSON.stringify(checkedJson));
+
+  // Optional selection references cel-go's select_optional_field overload, which loads back like any other
+  const optionalInput = `request.?auth.hasValue()`;
+  const optionalJson = toCheckedExpr(
+    checker(parser(lexer(optionalInput)), [new VariableDecl("request", new MapType(STRING_TYPE, DYN_TYPE))])
+  );
+  const optionalLoaded = toCheckedExpr(fromCheckedExpr(optionalJson, [], optionalInput));
+  console.log(
+    JSON.stringify(optionalJson).includes("select_optional_field") &&
+      JSON.stringify(optionalLoaded) === JSON.stringify(optionalJson)
+  );
+}
+
+if (require.main === module) {
+  testSerializer();
+}
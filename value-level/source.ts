@@ -0,0 +1,118 @@
+/*
+NOTE:
+* Offsets are UTF-16 code unit offsets into the source text, cel-go counts code points instead
+* Lines and columns are 1-based
+*/
+
+const SNIPPET_WIDTH = 80;
+const SNIPPET_CONTEXT = 20;
+
+export class Source {
+  public readonly lineOffsets: number[] = [0];
+  // Offsets of the surrogate pairs, which are two code units but a single code point
+  private readonly pairOffsets: number[] = [];
+
+  constructor(public readonly text: string, public readonly name: string = "<input>") {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\r" && text[i + 1] === "\n") {
+        continue;
+      }
+      if (text[i] === "\r" || text[i] === "\n") {
+        this.lineOffsets.push(i + 1);
+      }
+      if (isHighSurrogate(text.charCodeAt(i)) && isLowSurrogate(text.charCodeAt(i + 1))) {
+        this.pairOffsets.push(i++);
+      }
+    }
+  }
+
+  position(offset: number): Position {
+    // Binary search for the last line starting at or before offset
+    let low = 0;
+    let high = this.lineOffsets.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineOffsets[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return new Position(offset, low + 1, offset - this.lineOffsets[low] + 1);
+  }
+
+  codePointOffset(offset: number): number {
+    return offset - this.pairOffsets.filter((pairOffset) => pairOffset < offset - 1).length;
+  }
+
+  offsetOfCodePoint(codePointOffset: number): number {
+    let offset = codePointOffset;
+    for (const pairOffset of this.pairOffsets) {
+      if (pairOffset >= offset) {
+        break;
+      }
+      offset++;
+    }
+    return offset;
+  }
+
+  span(start: number, end: number): Span {
+    return new Span(this.position(start), this.position(end), this);
+  }
+
+  line(line: number): string {
+    const start = this.lineOffsets[line - 1];
+    const end = line < this.lineOffsets.length ? this.lineOffsets[line] : this.text.length;
+    return this.text.slice(start, end).replace(/(\r\n|\r|\n)$/, "");
+  }
+
+  // Long lines are cut to a window starting a little before the span, so that messages stay short
+  snippet(span: Span): string {
+    const line = this.line(span.start.line);
+    const start = span.start.column - 1;
+    const end = span.end.line === span.start.line ? span.end.column - 1 : line.length;
+    const from =
+      line.length > SNIPPET_WIDTH ? Math.max(0, Math.min(start - SNIPPET_CONTEXT, line.length - SNIPPET_WIDTH)) : 0;
+    const to = Math.min(line.length, from + SNIPPET_WIDTH);
+    const [prefix, suffix] = [from > 0 ? "..." : "", to < line.length ? "..." : ""];
+    const width = Math.max(1, Math.min(end, to) - start);
+    return ` | ${prefix}${line.slice(from, to)}${suffix}\n | ${" ".repeat(prefix.length + start - from)}${"^".repeat(
+      width
+    )}`;
+  }
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+export class Position {
+  constructor(public readonly offset: number, public readonly line: number, public readonly column: number) {}
+}
+
+export class Span {
+  constructor(public readonly start: Position, public readonly end: Position, public readonly source: Source) {}
+
+  get text(): string {
+    return this.source.text.slice(this.start.offset, this.end.offset);
+  }
+
+  to(other: Span): Span {
+    return new Span(this.start, other.end, this.source);
+  }
+
+  toString(): string {
+    return `${this.source.name}:${this.start.line}:${this.start.column}`;
+  }
+}
+
+export class CelError extends Error {
+  constructor(public readonly reason: string, public readonly span?: Span) {
+    super(span === undefined ? reason : `${span}: ${reason}\n${span.source.snippet(span)}`);
+    this.name = "CelError";
+  }
+}
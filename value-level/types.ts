@@ -0,0 +1,109 @@
+/*
+Types as described in the CEL language definition
+https://github.com/google/cel-spec/blob/master/doc/langdef.md#values
+*/
+
+export type Type = PrimitiveType | ListType | MapType | MessageType | DynType | OptionalType | TypeParamType;
+
+export class PrimitiveType {
+  constructor(public readonly name: "int" | "uint" | "double" | "string" | "bytes" | "bool" | "null_type") {}
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+export class ListType {
+  constructor(public readonly elemType: Type) {}
+
+  toString(): string {
+    return `list(${this.elemType})`;
+  }
+}
+
+export class MapType {
+  constructor(public readonly keyType: Type, public readonly valueType: Type) {}
+
+  toString(): string {
+    return `map(${this.keyType}, ${this.valueType})`;
+  }
+}
+
+export class MessageType {
+  constructor(public readonly name: string) {}
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+export class DynType {
+  toString(): string {
+    return "dyn";
+  }
+}
+
+export class OptionalType {
+  constructor(public readonly elemType: Type) {}
+
+  toString(): string {
+    return `optional_type(${this.elemType})`;
+  }
+}
+
+// Stands for any type in overload signatures such as list(A) + list(A), the checker binds it per call
+export class TypeParamType {
+  constructor(public readonly name: string) {}
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+export const INT_TYPE = new PrimitiveType("int");
+export const UINT_TYPE = new PrimitiveType("uint");
+export const DOUBLE_TYPE = new PrimitiveType("double");
+export const STRING_TYPE = new PrimitiveType("string");
+export const BYTES_TYPE = new PrimitiveType("bytes");
+export const BOOL_TYPE = new PrimitiveType("bool");
+export const NULL_TYPE = new PrimitiveType("null_type");
+export const DYN_TYPE = new DynType();
+
+// Ranges of int and uint values, which are 64-bit like in the other CEL implementations
+export const MIN_INT64 = -(2n ** 63n);
+export const MAX_INT64 = 2n ** 63n - 1n;
+export const MAX_UINT64 = 2n ** 64n - 1n;
+
+// Answers questions about message types known to the interpreter
+export interface TypeProvider {
+  findType(typeName: string): MessageType | undefined;
+  findFieldNames(typeName: string): string[] | undefined;
+  findFieldType(typeName: string, fieldName: string): Type | undefined;
+  // Enum constants such as acme.Color.RED, which evaluate to ints
+  findEnumValue?(enumValueName: string): number | undefined;
+}
+
+export class StructTypeProvider implements TypeProvider {
+  constructor(private readonly types: Record<string, Record<string, Type>> = {}) {}
+
+  findType(typeName: string): MessageType | undefined {
+    return this.fields(typeName) !== undefined ? new MessageType(typeName) : undefined;
+  }
+
+  findFieldNames(typeName: string): string[] | undefined {
+    const fields = this.fields(typeName);
+    return fields !== undefined ? Object.keys(fields) : undefined;
+  }
+
+  findFieldType(typeName: string, fieldName: string): Type | undefined {
+    const fields = this.fields(typeName);
+    return fields !== undefined && Object.prototype.hasOwnProperty.call(fields, fieldName)
+      ? fields[fieldName]
+      : undefined;
+  }
+
+  // Undefined for names such as constructor that only exist on Object.prototype
+  private fields(typeName: string): Record<string, Type> | undefined {
+    return Object.prototype.hasOwnProperty.call(this.types, typeName) ? this.types[typeName] : undefined;
+  }
+}
@@ -0,0 +1,336 @@
+/*
+NOTE:
+* Printing the canonical form: single spaces around binary operators, ", " between arguments and ": " in entries
+* Parenthesizing only where the grammar's precedence levels require it, original parentheses are not kept
+* Quoting all strings with double quotes and escaping the characters that need it
+*/
+import {
+  ACCUMULATOR_VAR,
+  BINARY_OPERATORS,
+  BLOCK_FUNCTION,
+  BLOCK_INDEX_PREFIX,
+  CallExpr,
+  ComprehensionExpr,
+  CONDITIONAL_OPERATOR,
+  ConstExpr,
+  CreateListExpr,
+  CreateMapExpr,
+  CreateStructExpr,
+  Expr,
+  IdentExpr,
+  INDEX_OPERATOR,
+  MAP_INSERT,
+  OPTIONAL_INDEX,
+  OPTIONAL_SELECT,
+  SelectExpr,
+  UNARY_OPERATORS,
+  UNUSED_ITER_VAR,
+} from "./ast";
+import { lexer } from "./lexer";
+import { parser } from "./parser";
+import { CelError } from "./source";
+
+// Binding strength of the grammar's levels, from Expr up to Primary
+const CONDITIONAL_PRECEDENCE = 1;
+const UNARY_PRECEDENCE = 7;
+const MEMBER_PRECEDENCE = 8;
+const PRIMARY_PRECEDENCE = 9;
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 2,
+  "&&": 3,
+  "<": 4,
+  "<=": 4,
+  ">=": 4,
+  ">": 4,
+  "==": 4,
+  "!=": 4,
+  in: 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+// Operator syntax keyed by function name
+const BINARY_SYNTAX: Record<string, string> = Object.fromEntries(
+  Object.entries(BINARY_OPERATORS).map(([syntax, func]) => [func, syntax])
+);
+const UNARY_SYNTAX: Record<string, string> = Object.fromEntries(
+  Object.entries(UNARY_OPERATORS).map(([syntax, func]) => [func, syntax])
+);
+
+const ESCAPES: Record<string, string> = {
+  "\x07": "\\a",
+  "\b": "\\b",
+  "\f": "\\f",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\v": "\\v",
+  "\\": "\\\\",
+  '"': '\\"',
+};
+
+export function unparser(expr: Expr): string {
+  if (expr instanceof ConstExpr) {
+    return unparseConst(expr);
+  }
+  if (expr instanceof IdentExpr) {
+    return expr.name.startsWith(BLOCK_INDEX_PREFIX)
+      ? `cel.index(${expr.name.slice(BLOCK_INDEX_PREFIX.length)})`
+      : expr.name;
+  }
+  if (expr instanceof SelectExpr) {
+    const select = `${unparseOperand(expr.operand, MEMBER_PRECEDENCE)}.${expr.field}`;
+    return expr.testOnly ? `has(${select})` : select;
+  }
+  if (expr instanceof CallExpr) {
+    return unparseCall(expr);
+  }
+  if (expr instanceof CreateListExpr) {
+    const optional = (index: number) => (expr.optionalIndices.includes(index) ? "?" : "");
+    return `[${expr.elements.map((element, index) => `${optional(index)}${unparser(element)}`).join(", ")}]`;
+  }
+  if (expr instanceof CreateMapExpr) {
+    const entries = expr.entries.map(
+      (entry) => `${entry.optional ? "?" : ""}${unparser(entry.key)}: ${unparser(entry.value)}`
+    );
+    return `{${entries.join(", ")}}`;
+  }
+  if (expr instanceof CreateStructExpr) {
+    const fields = expr.fields.map((field) => `${field.optional ? "?" : ""}${field.field}: ${unparser(field.value)}`);
+    return `${expr.messageName}{${fields.join(", ")}}`;
+  }
+  return unparseComprehension(expr);
+}
+
+function unparseCall(callExpr: CallExpr): string {
+  const { func, args } = callExpr;
+  if (func === CONDITIONAL_OPERATOR && args.length === 3) {
+    const cond = unparseOperand(args[0], CONDITIONAL_PRECEDENCE + 1);
+    const then = unparseOperand(args[1], CONDITIONAL_PRECEDENCE + 1);
+    return `${cond} ? ${then} : ${unparser(args[2])}`;
+  }
+  if (BINARY_SYNTAX[func] !== undefined && args.length === 2) {
+    const syntax = BINARY_SYNTAX[func];
+    const precedence = BINARY_PRECEDENCE[syntax];
+    // Binary operators are left-associative, so only the right operand needs parentheses at the same level,
+    // unless it is the same logical operator, which is associative and parsed into balanced trees
+    const associative = (syntax === "&&" || syntax === "||") && args[1] instanceof CallExpr && args[1].func === func;
+    const right = unparseOperand(args[1], associative ? precedence : precedence + 1);
+    return `${unparseOperand(args[0], precedence)} ${syntax} ${right}`;
+  }
+  if (UNARY_SYNTAX[func] !== undefined && args.length === 1) {
+    // The grammar only allows repeating the same unary operator without parentheses
+    const operand = args[0];
+    const repeated = operand instanceof CallExpr && operand.func === func && operand.args.length === 1;
+    return `${UNARY_SYNTAX[func]}${repeated ? unparser(operand) : unparseOperand(operand, MEMBER_PRECEDENCE)}`;
+  }
+  if (func === BLOCK_FUNCTION && args.length === 2) {
+    return `cel.block(${unparser(args[0])}, ${unparser(args[1])})`;
+  }
+  if (func === INDEX_OPERATOR && args.length === 2) {
+    return `${unparseOperand(args[0], MEMBER_PRECEDENCE)}[${unparser(args[1])}]`;
+  }
+  if (func === OPTIONAL_INDEX && args.length === 2) {
+    return `${unparseOperand(args[0], MEMBER_PRECEDENCE)}[?${unparser(args[1])}]`;
+  }
+  if (func === OPTIONAL_SELECT && args.length === 2 && args[1] instanceof ConstExpr) {
+    return `${unparseOperand(args[0], MEMBER_PRECEDENCE)}.?${args[1].value}`;
+  }
+  const argList = args.map(unparser).join(", ");
+  if (callExpr.target !== undefined) {
+    return `${unparseOperand(callExpr.target, MEMBER_PRECEDENCE)}.${func}(${argList})`;
+  }
+  return `${func}(${argList})`;
+}
+
+// Only the expansions of the standard macros can be printed, as the macro call they came from
+function unparseComprehension(comprehensionExpr: ComprehensionExpr): string {
+  if (isBind(comprehensionExpr)) {
+    const { accuVar, accuInit, result } = comprehensionExpr;
+    return `cel.bind(${accuVar}, ${unparser(accuInit)}, ${unparser(result)})`;
+  }
+  const macro = recognizeMacro(comprehensionExpr);
+  if (macro === undefined) {
+    throw new CelError("Comprehensions have no source syntax", comprehensionExpr.span);
+  }
+  const [func, args] = macro;
+  const { iterVar, iterVar2 } = comprehensionExpr;
+  const argList = [iterVar, ...(iterVar2 !== undefined ? [iterVar2] : []), ...args.map(unparser)].join(", ");
+  return `${unparseOperand(comprehensionExpr.iterRange, MEMBER_PRECEDENCE)}.${func}(${argList})`;
+}
+
+function isBind(comprehensionExpr: ComprehensionExpr): boolean {
+  const { iterVar, iterRange, accuVar, loopCondition, loopStep } = comprehensionExpr;
+  return (
+    iterVar === UNUSED_ITER_VAR &&
+    iterRange instanceof CreateListExpr &&
+    iterRange.elements.length === 0 &&
+    loopCondition instanceof ConstExpr &&
+    loopCondition.value === false &&
+    loopStep instanceof IdentExpr &&
+    loopStep.name === accuVar
+  );
+}
+
+function recognizeMacro(comprehensionExpr: ComprehensionExpr): [string, Expr[]] | undefined {
+  const { iterVar, iterVar2, accuVar, accuInit, loopStep, result } = comprehensionExpr;
+  const isAccu = (expr: Expr) => expr instanceof IdentExpr && expr.name === accuVar;
+  if (accuVar !== ACCUMULATOR_VAR || !(loopStep instanceof CallExpr)) {
+    return undefined;
+  }
+  const [first, second, third] = loopStep.args;
+  if (accuInit instanceof ConstExpr && accuInit.kind === "bool" && isAccu(result) && isAccu(first)) {
+    if (accuInit.value === true && loopStep.func === BINARY_OPERATORS["&&"]) {
+      return ["all", [second]];
+    }
+    if (accuInit.value === false && loopStep.func === BINARY_OPERATORS["||"]) {
+      return ["exists", [second]];
+    }
+  }
+  if (accuInit instanceof ConstExpr && accuInit.kind === "int" && loopStep.func === CONDITIONAL_OPERATOR) {
+    return ["exists_one", [first]];
+  }
+  // Conditional steps come from the predicate of the filtering forms
+  const conditional = loopStep.func === CONDITIONAL_OPERATOR && isAccu(third);
+  if (accuInit instanceof CreateMapExpr && accuInit.entries.length === 0 && isAccu(result) && iterVar2 !== undefined) {
+    const insert = conditional ? second : loopStep;
+    const predicate = conditional ? [first] : [];
+    if (!(insert instanceof CallExpr && insert.func === MAP_INSERT && isAccu(insert.args[0]))) {
+      return undefined;
+    }
+    const [key, value] = insert.args.slice(1);
+    if (insert.args.length === 3 && key instanceof IdentExpr && key.name === iterVar) {
+      return ["transformMap", [...predicate, value]];
+    }
+    return insert.args.length === 2 ? ["transformMapEntry", [...predicate, key]] : undefined;
+  }
+  if (!(accuInit instanceof CreateListExpr && accuInit.elements.length === 0 && isAccu(result))) {
+    return undefined;
+  }
+  const appended = (expr: Expr) =>
+    expr instanceof CallExpr &&
+    expr.func === BINARY_OPERATORS["+"] &&
+    isAccu(expr.args[0]) &&
+    expr.args[1] instanceof CreateListExpr &&
+    expr.args[1].elements.length === 1
+      ? expr.args[1].elements[0]
+      : undefined;
+  const map = iterVar2 !== undefined ? "transformList" : "map";
+  const transform = appended(loopStep);
+  if (transform !== undefined) {
+    return [map, [transform]];
+  }
+  const filtered = conditional ? appended(second) : undefined;
+  if (filtered instanceof IdentExpr && filtered.name === iterVar && iterVar2 === undefined) {
+    return ["filter", [first]];
+  }
+  if (filtered !== undefined) {
+    return [map, [first, filtered]];
+  }
+  return undefined;
+}
+
+// Parenthesizes the operand if it binds less tightly than the given level
+function unparseOperand(expr: Expr, precedence: number): string {
+  const source = unparser(expr);
+  return precedenceOf(expr) < precedence ? `(${source})` : source;
+}
+
+function precedenceOf(expr: Expr): number {
+  if (expr instanceof CallExpr) {
+    const { func, args } = expr;
+    if (func === CONDITIONAL_OPERATOR && args.length === 3) {
+      return CONDITIONAL_PRECEDENCE;
+    }
+    if (BINARY_SYNTAX[func] !== undefined && args.length === 2) {
+      return BINARY_PRECEDENCE[BINARY_SYNTAX[func]];
+    }
+    if (UNARY_SYNTAX[func] !== undefined && args.length === 1) {
+      return UNARY_PRECEDENCE;
+    }
+    return MEMBER_PRECEDENCE;
+  }
+  if (expr instanceof SelectExpr) {
+    return expr.testOnly ? PRIMARY_PRECEDENCE : MEMBER_PRECEDENCE;
+  }
+  // Negative numbers print with a leading minus, like a unary operator
+  const value = expr instanceof ConstExpr ? expr.value : undefined;
+  if ((typeof value === "number" || typeof value === "bigint") && (value < 0 || Object.is(value, -0))) {
+    return UNARY_PRECEDENCE;
+  }
+  return PRIMARY_PRECEDENCE;
+}
+
+function unparseConst(constExpr: ConstExpr): string {
+  switch (constExpr.kind) {
+    case "int":
+      return String(constExpr.value);
+    case "uint":
+      return `${constExpr.value}u`;
+    case "double":
+      return unparseDouble(constExpr);
+    case "string":
+      return `"${escapeString(constExpr.value as string)}"`;
+    case "bytes":
+      return `b"${escapeBytes(constExpr.value as string)}"`;
+    case "bool":
+      return String(constExpr.value);
+    case "null":
+      return "null";
+  }
+}
+
+function unparseDouble(constExpr: ConstExpr): string {
+  const value = constExpr.value as number;
+  if (!Number.isFinite(value)) {
+    throw new CelError(`Double ${value} has no literal syntax`, constExpr.span);
+  }
+  return doubleLiteral(value);
+}
+
+export function doubleLiteral(value: number): string {
+  const source = Object.is(value, -0) ? "-0" : String(value);
+  // Integral doubles need a fraction or exponent to stay doubles
+  return /[.e]/.test(source) ? source : `${source}.0`;
+}
+
+export function escapeString(value: string): string {
+  return Array.from(value, (char) => {
+    if (ESCAPES[char] !== undefined) {
+      return ESCAPES[char];
+    }
+    const code = char.codePointAt(0)!;
+    return code < 0x20 || code === 0x7f ? `\\x${hex(code)}` : char;
+  }).join("");
+}
+
+// Bytes are binary strings, anything outside printable ASCII is written as a hex escape
+export function escapeBytes(value: string): string {
+  return Array.from(value, (char) => {
+    if (ESCAPES[char] !== undefined) {
+      return ESCAPES[char];
+    }
+    const code = char.charCodeAt(0);
+    return code < 0x20 || code >= 0x7f ? `\\x${hex(code)}` : char;
+  }).join("");
+}
+
+function hex(code: number): string {
+  return code.toString(16).toUpperCase().padStart(2, "0");
+}
+
+function testUnparser() {
+  const input = `!(a.b[0] in [1, 2u, 3.0]) && (x ? y : z) ? b"\\xff\\n" : {"k": -(-1)}.size() * (2 + 3)`;
+  // const input = `[1, 2, 3].filter(x, x > 1).map(x, x * 2).exists(y, y == 4)`;
+  const unparsed = unparser(parser(lexer(input)));
+  console.log(unparsed);
+  console.log(unparser(parser(lexer(unparsed))) === unparsed);
+}
+
+if (require.main === module) {
+  testUnparser();
+}